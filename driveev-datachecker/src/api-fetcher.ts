@@ -1,4 +1,5 @@
-import type { ScrapedData } from "./scraper.js";
+import type { ScrapedData, ScrapedTrim } from "./scraper.js";
+import { cachedFetch, type CacheSettings } from "./page-cache.js";
 
 export interface ApiConfig {
   endpoint: string;
@@ -9,6 +10,13 @@ export interface ApiConfig {
     price?: string;
     specs?: string;
     variants?: string;
+    // Array of trims, with paths within each item for its name/price/specs
+    trims?: {
+      path: string;
+      name: string;
+      price?: string;
+      specs?: string;
+    };
   };
 }
 
@@ -49,13 +57,15 @@ export function getNestedValue(obj: any, path: string): any {
  * Strategy 1: Fetch EV data directly from an API endpoint.
  *
  * Returns ScrapedData on success, or null on ANY failure so the
- * scraper waterfall can fall through to the next strategy.
+ * scraper waterfall can fall through to the next strategy. The response body
+ * is cached by request URL.
  */
 export async function fetchFromApi(
   siteKey: string,
   apiConfig: ApiConfig,
   brand: string,
-  model: string
+  model: string,
+  cache: CacheSettings
 ): Promise<ScrapedData | null> {
   try {
     // 1. Build the request URL
@@ -67,30 +77,34 @@ export async function fetchFromApi(
       url = url.replace(/\/+$/, "") + populatedPath;
     }
 
-    // 2. Fetch with timeout
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 10_000);
-
-    const response = await fetch(url, {
-      headers: {
-        Accept: "application/json",
-        "User-Agent": "Mozilla/5.0 (compatible; DriveEV-DataChecker/1.0)",
-        ...apiConfig.headers,
-      },
-      signal: controller.signal,
+    // 2. Fetch with timeout (or take the cached body)
+    const page = await cachedFetch(url, "api", cache, async () => {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), 10_000);
+
+      const response = await fetch(url, {
+        headers: {
+          Accept: "application/json",
+          "User-Agent": "Mozilla/5.0 (compatible; DriveEV-DataChecker/1.0)",
+          ...apiConfig.headers,
+        },
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeout);
+
+      if (!response.ok) {
+        console.error(
+          `API fetch failed for ${siteKey}: HTTP ${response.status} ${response.statusText}`
+        );
+        return "";
+      }
+      return await response.text();
     });
-
-    clearTimeout(timeout);
-
-    if (!response.ok) {
-      console.error(
-        `API fetch failed for ${siteKey}: HTTP ${response.status} ${response.statusText}`
-      );
-      return null;
-    }
+    if (!page) return null;
 
     // 3. Parse JSON
-    const json = await response.json();
+    const json = JSON.parse(page.body);
 
     // 4. Extract fields using responseMapping
     const mapping = apiConfig.responseMapping;
@@ -120,8 +134,40 @@ export async function fetchFromApi(
       ? variantsRaw.map(String)
       : [];
 
+    const trimsRaw = mapping.trims
+      ? getNestedValue(json, mapping.trims.path)
+      : undefined;
+    const trims: ScrapedTrim[] | undefined =
+      mapping.trims && Array.isArray(trimsRaw)
+        ? trimsRaw
+            .map((item): ScrapedTrim => {
+              const trimSpecs = mapping.trims!.specs
+                ? getNestedValue(item, mapping.trims!.specs)
+                : undefined;
+              return {
+                name: String(getNestedValue(item, mapping.trims!.name) ?? ""),
+                price: mapping.trims!.price
+                  ? String(getNestedValue(item, mapping.trims!.price) ?? "")
+                  : "",
+                specs:
+                  trimSpecs && typeof trimSpecs === "object" && !Array.isArray(trimSpecs)
+                    ? Object.fromEntries(
+                        Object.entries(trimSpecs).map(([k, v]) => [k, String(v)])
+                      )
+                    : {},
+              };
+            })
+            .filter((trim) => trim.name)
+        : undefined;
+
     // 5. Check that we got at least some meaningful data
-    if (!title && !price && Object.keys(specs).length === 0 && variants.length === 0) {
+    if (
+      !title &&
+      !price &&
+      Object.keys(specs).length === 0 &&
+      variants.length === 0 &&
+      !trims?.length
+    ) {
       console.error(
         `API fetch for ${siteKey}: response parsed but no usable data found`
       );
@@ -131,8 +177,10 @@ export async function fetchFromApi(
     return {
       source: siteKey,
       url,
-      data: { title, price, specs, variants },
+      data: { title, price, specs, variants, ...(trims ? { trims } : {}) },
       rawText: JSON.stringify(json),
+      fromCache: page.fromCache,
+      fetchedAt: page.fetchedAt,
     };
   } catch (err) {
     console.error(
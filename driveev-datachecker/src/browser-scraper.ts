@@ -1,31 +1,59 @@
 import { chromium, type Browser, type Page } from "playwright";
-import type { SiteConfig, ScrapedData } from "./scraper.js";
+import {
+  extractFromHtml,
+  HIDDEN_ATTR,
+  type SiteConfig,
+  type ScrapedData,
+} from "./scraper.js";
+import { cachedFetch, type CacheSettings } from "./page-cache.js";
 
 // ---------------------------------------------------------------------------
 // Singleton browser manager
 // ---------------------------------------------------------------------------
 
-let browserInstance: Browser | null = null;
-
-async function getBrowser(): Promise<Browser> {
-  if (!browserInstance || !browserInstance.isConnected()) {
-    browserInstance = await chromium.launch({
-      headless: true,
-      args: [
-        "--disable-blink-features=AutomationControlled",
-        "--no-sandbox",
-        "--disable-setuid-sandbox",
-        "--disable-dev-shm-usage",
-      ],
-    });
+// The launch itself is shared: concurrent scrapes that start before the
+// browser is up all wait for the same launch instead of starting their own
+let browserPromise: Promise<Browser> | null = null;
+
+function getBrowser(): Promise<Browser> {
+  if (!browserPromise) {
+    const launching: Promise<Browser> = chromium
+      .launch({
+        headless: true,
+        args: [
+          "--disable-blink-features=AutomationControlled",
+          "--no-sandbox",
+          "--disable-setuid-sandbox",
+          "--disable-dev-shm-usage",
+        ],
+      })
+      .then(
+        (browser) => {
+          // A crashed browser is launched again on the next call
+          browser.on("disconnected", () => {
+            if (browserPromise === launching) browserPromise = null;
+          });
+          return browser;
+        },
+        (err) => {
+          if (browserPromise === launching) browserPromise = null;
+          throw err;
+        },
+      );
+    browserPromise = launching;
   }
-  return browserInstance;
+  return browserPromise;
 }
 
 export async function closeBrowser(): Promise<void> {
-  if (browserInstance && browserInstance.isConnected()) {
-    await browserInstance.close();
-    browserInstance = null;
+  const pending = browserPromise;
+  browserPromise = null;
+  if (!pending) return;
+  try {
+    const browser = await pending;
+    if (browser.isConnected()) await browser.close();
+  } catch {
+    // The launch failed, so there is nothing to close
   }
 }
 
@@ -33,11 +61,44 @@ export async function closeBrowser(): Promise<void> {
 // Main scrape function
 // ---------------------------------------------------------------------------
 
+/**
+ * Scrape a page with Playwright: render it, then extract from the rendered
+ * DOM as the cheerio strategy does from fetched HTML. The cache holds the DOM
+ * (the same snapshot the site health check uses), so a replay runs the
+ * site's current selectors without launching a browser.
+ */
 export async function scrapeWithBrowser(
   url: string,
   siteKey: string,
   config: SiteConfig | null,
+  cache: CacheSettings,
 ): Promise<ScrapedData | null> {
+  const page = await cachedFetch(
+    url,
+    "snapshot",
+    cache,
+    async () => (await snapshotPage(url, config)) ?? "",
+  );
+  if (!page) return null;
+
+  return {
+    source: siteKey,
+    url,
+    ...extractFromHtml(page.body, config),
+    fromCache: page.fromCache,
+    fetchedAt: page.fetchedAt,
+  };
+}
+
+/**
+ * Load a page in a fresh browser context, wait for it to render, and hand it
+ * to `use`. Returns null if the page can't be loaded or `use` throws.
+ */
+async function openPage<T>(
+  url: string,
+  config: SiteConfig | null,
+  use: (page: Page) => Promise<T>,
+): Promise<T | null> {
   let context: Awaited<ReturnType<Browser["newContext"]>> | null = null;
 
   try {
@@ -76,88 +137,12 @@ export async function scrapeWithBrowser(
       }
     }
 
-    // Build the selectors object to pass into page.evaluate()
-    const selectors = config?.selectors ?? null;
-
-    const extracted = await page.evaluate(
-      (sel: SiteConfig["selectors"] | null) => {
-        // --- Structured extraction (only when selectors are available) ---
-        let title = "";
-        let price = "";
-        const specs: Record<string, string> = {};
-        const variants: string[] = [];
-
-        if (sel) {
-          if (sel.title) {
-            title =
-              document.querySelector(sel.title)?.textContent?.trim() ?? "";
-          }
-          if (sel.price) {
-            price =
-              document.querySelector(sel.price)?.textContent?.trim() ?? "";
-          }
-          if (sel.specsTable) {
-            const rows = document.querySelectorAll(sel.specsTable);
-            rows.forEach((row) => {
-              const labelSel = sel.specLabel ?? "td:first-child";
-              const valueSel = sel.specValue ?? "td:last-child";
-              const labelEl = row.querySelector(labelSel);
-              const valueEl = row.querySelector(valueSel);
-              // Pattern 1: label and value are children of the row
-              let label = labelEl?.textContent?.trim() ?? "";
-              let value = valueEl?.textContent?.trim() ?? "";
-              // Pattern 2 (Tailwind sites): label IS the row itself,
-              // and value is the next sibling element
-              if (!label && row.matches(labelSel)) {
-                label = row.textContent?.trim() ?? "";
-                const sibling = row.nextElementSibling;
-                if (sibling && sibling.matches(valueSel)) {
-                  value = sibling.textContent?.trim() ?? "";
-                }
-              }
-              if (label && value && label !== value) {
-                specs[label.toLowerCase().replace(/\s+/g, "_")] = value;
-              }
-            });
-          }
-          if (sel.variants) {
-            const variantEls = document.querySelectorAll(sel.variants);
-            variantEls.forEach((el) => {
-              const text = el.textContent?.trim() ?? "";
-              if (text) variants.push(text);
-            });
-          }
-        }
-
-        // --- Raw text extraction (always) ---
-        const removeTags = ["script", "style", "nav", "footer", "header"];
-        for (const tag of removeTags) {
-          document.querySelectorAll(tag).forEach((el) => el.remove());
-        }
-        const rawText = (document.body?.innerText ?? "")
-          .replace(/\s+/g, " ")
-          .trim()
-          .substring(0, 8000);
-
-        return { title, price, specs, variants, rawText };
-      },
-      selectors,
-    );
+    const result = await use(page);
 
     await context.close();
     context = null;
 
-    return {
-      source: siteKey,
-      url,
-      data: {
-        title: extracted.title,
-        price: extracted.price,
-        specs: extracted.specs,
-        variants: extracted.variants,
-      },
-      rawText: extracted.rawText,
-    };
+    return result;
   } catch (err) {
     console.error(
       `[browser-scraper] Failed to scrape ${url}:`,
@@ -175,3 +160,26 @@ export async function scrapeWithBrowser(
     return null;
   }
 }
+
+/**
+ * The DOM of a page after it has rendered, without scripts, so it can be
+ * served as a static fixture and scraped again without the site's JS.
+ * Elements that aren't displayed are marked with HIDDEN_ATTR.
+ */
+export async function snapshotPage(
+  url: string,
+  config: SiteConfig | null,
+): Promise<string | null> {
+  return openPage(url, config, async (page) => {
+    await page.evaluate((hiddenAttr) => {
+      document.querySelectorAll("script, noscript").forEach((el) => el.remove());
+      document.querySelectorAll("body *").forEach((el) => {
+        const style = getComputedStyle(el);
+        if (style.display === "none" || style.visibility === "hidden") {
+          el.setAttribute(hiddenAttr, "");
+        }
+      });
+    }, HIDDEN_ATTR);
+    return page.content();
+  });
+}
@@ -1,13 +1,70 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
 import type { ExcelEntry } from "./excel-parser.js";
+import {
+  parseSpecValue,
+  unitHintFromKey,
+  getCanonicalValue,
+  toCanonicalUnit,
+  formatSpecValue,
+  type SpecValue,
+} from "./spec-values.js";
+import { matchVariant } from "./variant-matcher.js";
+import { findSynonymGroup, normalizeTerm } from "./synonyms.js";
+import {
+  parsePrice,
+  isComparablePrice,
+  describePrice,
+  loadExchangeRates,
+  convertCurrency,
+  type ExchangeRates,
+} from "./price-parser.js";
+import type { ScrapedTrim } from "./scraper.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * How far a scraped number may be from the Excel value and still pass.
+ * `absolute` is in the field's own unit (km, s, kWh…), `percent` is relative
+ * to the Excel value; when both are set the larger allowance wins.
+ */
+export interface ToleranceRule {
+  absolute?: number;
+  percent?: number;
+}
+
+export interface ComparisonRules {
+  // Keyed by canonical field name (first entry of its alias group)
+  fields: Record<string, ToleranceRule>;
+  // Canonical field names that are not compared at all
+  ignore: string[];
+}
+
+/** The value most scraped sources agree on, weighted by site trust. */
+export interface Consensus {
+  // Raw value from the most trusted source in the agreeing group
+  value: string;
+  sources: string[];
+  // Trust weight of the agreeing sources over all sources, 0–1
+  confidence: number;
+}
 
 export interface FieldComparison {
   excel: string;
   scraped: Record<string, string>;
-  status: "match" | "mismatch" | "missing";
+  status: "match" | "within_tolerance" | "mismatch" | "missing";
   note?: string;
+  // The tolerance rule used for this field, if any
+  rule?: ToleranceRule & { field: string };
+  consensus?: Consensus;
+  // Set when the Excel value disagrees with a strong consensus
+  suggestion?: string;
 }
 
 export interface ComparisonResult {
+  sheetName?: string;
   rowNumber: number;
   car: string;
   fields: Record<string, FieldComparison>;
@@ -16,37 +73,23 @@ export interface ComparisonResult {
     foundOnSites: string[];
     notFoundOnSites: string[];
     status: "match" | "partial" | "missing";
+    // Closest site variant and its similarity (0–1) per site that lists variants
+    matches?: Record<string, { variant: string; score: number }>;
   };
+  // Per site: the trim whose own price and specs were compared
+  trimsUsed?: Record<string, string>;
+  // Only set when the sites list something the sheet doesn't
+  coverage?: CoverageGaps;
 }
 
-/**
- * Synonym groups for fields where different sources use equivalent terms.
- * Each group maps to a canonical form used for comparison.
- */
-const VALUE_SYNONYMS: Record<string, string[]> = {
-  electric: ["bev", "electric", "battery electric", "battery electric vehicle", "full electric"],
-  "plug-in hybrid": ["phev", "plug-in hybrid", "plug-in hybrid electric"],
-  hybrid: ["hev", "hybrid", "hybrid electric"],
-  "fuel cell": ["fcev", "fuel cell", "hydrogen fuel cell"],
-  rwd: ["rwd", "rear-wheel drive", "rear wheel drive"],
-  fwd: ["fwd", "front-wheel drive", "front wheel drive"],
-  awd: ["awd", "4wd", "all-wheel drive", "all wheel drive", "four-wheel drive"],
-  automatic: ["automatic", "auto", "at", "cvt", "dct", "single-speed"],
-  manual: ["manual", "mt"],
-};
-
-/**
- * Get the canonical form for a value if it belongs to a synonym group.
- * Returns the canonical key if found, otherwise the original value.
- */
-function getCanonicalValue(val: string): string {
-  const lower = val.toLowerCase().trim();
-  for (const [canonical, synonyms] of Object.entries(VALUE_SYNONYMS)) {
-    if (synonyms.includes(lower)) {
-      return canonical;
-    }
-  }
-  return lower;
+/** What the sites list for a car that the sheet doesn't have. */
+export interface CoverageGaps {
+  // Known fields (by canonical name) that sites list but this row leaves
+  // blank, with each site's value
+  fields: Array<{ field: string; scraped: Record<string, string> }>;
+  // Variants on at least MIN_VARIANT_SITES sites that no row of the car
+  // matches, with each site's own spelling
+  variants: Array<{ variant: string; sites: Record<string, string> }>;
 }
 
 /**
@@ -69,48 +112,102 @@ function normalizeValue(val: string): string {
 }
 
 /**
- * Field name alias groups. Each array contains equivalent field names
- * that different sites may use for the same data point.
- * The first entry is the "canonical" name.
+ * Get all alias keys that are equivalent to the given field name, using the
+ * groups in config/field-aliases.json plus `site`'s own aliases. The first
+ * entry is the canonical name.
  */
-const FIELD_ALIASES: string[][] = [
-  ["battery_(kwh)", "battery_size", "battery_capacity", "engine_size", "battery"],
-  ["seats", "seating_capacity", "seating", "seater"],
-  ["drivetrain", "drive_type", "driven_wheels"],
-  ["range_(km)", "battery_range", "range", "electric_range"],
-  ["wltp_range_(km)", "wltp_range"],
-  ["0-100_(s)", "acceleration_(0-100_km/h)", "acceleration", "0-100_kmh", "0_to_100"],
-  ["top_speed_(km/h)", "top_speed", "max_speed"],
-  ["fuel_type", "engine_type", "fuel"],
-  ["type", "vehicle_type", "vehicle_category"],
-  ["body_type", "body_style"],
-  ["charging_(kw_ac)", "ac_charging", "charging_ac"],
-  ["charging_(kw_dc)", "dc_charging", "charging_dc", "fast_charging"],
-  ["energy_consumption_(kwh/100km)", "energy_consumption", "consumption"],
-  ["group", "brand_group", "manufacturer_group"],
-  ["price", "price_range"],
-  ["horsepower", "horsepower_(bhp)", "power", "max_power"],
-  ["torque", "max_torque"],
-  ["weight", "curb_weight", "kerb_weight"],
-  ["length", "overall_length"],
-  ["width", "overall_width"],
-  ["height", "overall_height"],
-  ["boot_space", "trunk_space", "cargo_capacity", "cargo_volume"],
-];
+function getFieldAliases(fieldName: string, site?: string): string[] {
+  return findSynonymGroup("fields", fieldName, site) ?? [fieldName];
+}
+
+const RULES_PATH = path.join(__dirname, "..", "config", "comparison-rules.json");
 
 /**
- * Get all alias keys that are equivalent to the given field name.
+ * Load per-field tolerances and the ignore list from
+ * config/comparison-rules.json. A missing or broken file means exact
+ * comparison for every field.
  */
-function getFieldAliases(fieldName: string): string[] {
-  const normalized = fieldName.replace(/[_\s-]/g, "").toLowerCase();
-  for (const group of FIELD_ALIASES) {
-    for (const alias of group) {
-      if (alias.replace(/[_\s-]/g, "").toLowerCase() === normalized) {
-        return group;
+export function loadComparisonRules(): ComparisonRules {
+  const rules: ComparisonRules = { fields: {}, ignore: [] };
+  if (!fs.existsSync(RULES_PATH)) return rules;
+  try {
+    const stored = JSON.parse(fs.readFileSync(RULES_PATH, "utf-8"));
+    if (stored.fields && typeof stored.fields === "object") {
+      for (const [field, rule] of Object.entries<ToleranceRule>(stored.fields)) {
+        rules.fields[field] = {
+          ...(typeof rule.absolute === "number" ? { absolute: rule.absolute } : {}),
+          ...(typeof rule.percent === "number" ? { percent: rule.percent } : {}),
+        };
       }
     }
+    if (Array.isArray(stored.ignore)) {
+      rules.ignore = stored.ignore.map((f: unknown) => String(f));
+    }
+  } catch (err) {
+    console.error(`Failed to parse comparison rules "${RULES_PATH}":`, err);
   }
-  return [fieldName];
+  return rules;
+}
+
+/**
+ * Canonical name of a field: the first entry of its alias group, or the
+ * field itself when it has no aliases.
+ */
+function canonicalField(fieldName: string): string {
+  return getFieldAliases(fieldName)[0];
+}
+
+function sameField(a: string, b: string): boolean {
+  const normalize = (s: string) => s.replace(/[_\s-]/g, "").toLowerCase();
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Find the rule for a field, trying the Excel key first and then the plain
+ * field under a grouped header. Returns undefined when no rule applies.
+ */
+function findRule(
+  rules: ComparisonRules,
+  keys: Array<string | undefined>
+): (ToleranceRule & { field: string }) | undefined {
+  for (const key of keys) {
+    if (!key) continue;
+    const canonical = canonicalField(key);
+    for (const [field, rule] of Object.entries(rules.fields)) {
+      if (sameField(field, canonical) || sameField(field, key)) {
+        return { field, ...rule };
+      }
+    }
+  }
+  return undefined;
+}
+
+function isIgnored(
+  rules: ComparisonRules,
+  keys: Array<string | undefined>
+): boolean {
+  return keys.some(
+    (key) =>
+      key !== undefined &&
+      rules.ignore.some(
+        (field) => sameField(field, canonicalField(key)) || sameField(field, key)
+      )
+  );
+}
+
+/** Largest allowed difference from `reference` under a rule. */
+function allowance(rule: ToleranceRule, reference: number): number {
+  return Math.max(
+    rule.absolute ?? 0,
+    ((rule.percent ?? 0) / 100) * Math.abs(reference)
+  );
+}
+
+function describeRule(rule: ToleranceRule & { field: string }): string {
+  const parts: string[] = [];
+  if (rule.absolute !== undefined) parts.push(`±${rule.absolute}`);
+  if (rule.percent !== undefined) parts.push(`±${rule.percent}%`);
+  return `${parts.join(" or ")} (${rule.field})`;
 }
 
 /**
@@ -119,7 +216,11 @@ function getFieldAliases(fieldName: string): string[] {
  * 1. Checking field alias groups for equivalent names
  * 2. Stripping underscores, spaces, and dashes, then comparing case-insensitively
  */
-function findMatchingKey(target: string, keys: string[]): string | null {
+function findMatchingKey(
+  target: string,
+  keys: string[],
+  site?: string
+): string | null {
   const normalize = (s: string) =>
     s
       .replace(/[_\s-]/g, "")
@@ -136,7 +237,7 @@ function findMatchingKey(target: string, keys: string[]): string | null {
   }
 
   // Alias group match
-  const aliases = getFieldAliases(target);
+  const aliases = getFieldAliases(target, site);
   for (const alias of aliases) {
     const normalizedAlias = normalize(alias);
     for (const key of keys) {
@@ -149,31 +250,55 @@ function findMatchingKey(target: string, keys: string[]): string | null {
   return null;
 }
 
-/**
- * Extract all numeric values from a string (handles "AED 149,900 - 179,900",
- * "520 km - 570 km", "5.7 sec", etc.)
- */
-function extractNumbers(val: string): number[] {
-  const matches = val.match(/[\d]+(?:[.,]\d+)*/g);
-  if (!matches) return [];
-  return matches
-    .map((m) => parseFloat(m.replace(/,/g, "")))
-    .filter((n) => !isNaN(n) && n > 0);
+/** Price amounts as a typed value, so prices can form a consensus. */
+function priceAsSpecValue(
+  raw: string,
+  amounts: number[],
+  currency: string
+): SpecValue {
+  if (amounts.length > 1) {
+    return { kind: "range", raw, min: amounts[0], max: amounts[1], unit: currency };
+  }
+  return { kind: "number", raw, value: amounts[0], unit: currency };
+}
+
+function formatAmounts(currency: string, amounts: number[]): string {
+  return `${currency} ${amounts.map((a) => Math.round(a).toLocaleString()).join(" - ")}`;
+}
+
+function formatPriceRange(min: number, max: number): string {
+  return max === Infinity
+    ? `${min.toLocaleString()} or more`
+    : `${min.toLocaleString()} - ${max.toLocaleString()}`;
 }
 
 /**
  * Compare a price field using range logic.
- * Collects all numeric prices from all scraped sources, finds the global
- * min and max, and checks if the Excel price falls within that range.
+ * Each scraped price is classified first (list price, starting-from, monthly
+ * instalment or unknown); only list and starting-from prices are used,
+ * converted to the Excel currency with the exchange-rate table. Their amounts
+ * give a global min and max, and the Excel price must fall within that range.
+ * A starting-from price is only that source's minimum: it can lower the
+ * range's floor but never sets its ceiling, which comes from the list prices.
+ * With no list price at all, the range is open at the top.
+ * The note lists how every source's price was read and any conversion.
+ *
+ * The Excel currency is the one in the price cell, else `excelCurrency` (from
+ * the column header), else the rate table's base currency.
  */
 function comparePriceField(
   excelValue: string,
-  scrapedValues: Record<string, string>
+  scrapedValues: Record<string, string>,
+  rule?: ToleranceRule & { field: string },
+  weights: Record<string, number> = {},
+  excelCurrency?: string,
+  rates: ExchangeRates = loadExchangeRates()
 ): FieldComparison {
   const result: FieldComparison = {
     excel: excelValue,
     scraped: scrapedValues,
     status: "missing",
+    ...(rule ? { rule } : {}),
   };
 
   const sources = Object.keys(scrapedValues);
@@ -182,54 +307,380 @@ function comparePriceField(
     return result;
   }
 
-  const excelNumbers = extractNumbers(excelValue);
-  if (excelNumbers.length === 0) {
-    result.status = "mismatch";
-    result.note = "Could not parse Excel price as a number";
-    return result;
-  }
-
-  const excelPrice = excelNumbers[0];
-
-  // Collect all numeric values from all scraped sources
+  const excel = parsePrice(excelValue);
+  const currency = excel.currency ?? excelCurrency ?? rates.base;
+  const comparable: Record<string, string> = {};
+  const typedPrices: Record<string, SpecValue> = {};
+  const classifications: string[] = [];
+  // Every usable amount, and the ones from list prices (which alone can
+  // bound the range from above)
   const allScrapedPrices: number[] = [];
+  const listPrices: number[] = [];
+
   for (const source of sources) {
-    const nums = extractNumbers(scrapedValues[source]);
-    allScrapedPrices.push(...nums);
+    const parsed = parsePrice(scrapedValues[source]);
+    const from = parsed.currency ?? currency;
+    let detail = "";
+    if (!isComparablePrice(parsed)) {
+      detail = " (not compared)";
+    } else {
+      const converted = parsed.amounts.map((a) =>
+        convertCurrency(a, from, currency, rates)
+      );
+      if (converted.some((a) => a === null)) {
+        detail = ` (not compared: no ${from} to ${currency} rate)`;
+      } else {
+        const amounts = converted as number[];
+        if (from !== currency) {
+          const rate = convertCurrency(1, from, currency, rates)!;
+          detail = ` = ${formatAmounts(currency, amounts)} (1 ${from} = ${rate.toFixed(4)} ${currency}${rates.asOf ? `, rates as of ${rates.asOf}` : ""})`;
+        }
+        if (parsed.kind === "starting_from") {
+          // Not a price to suggest either, so it stays out of the consensus
+          allScrapedPrices.push(amounts[0]);
+        } else {
+          comparable[source] = scrapedValues[source];
+          typedPrices[source] = priceAsSpecValue(scrapedValues[source], amounts, currency);
+          allScrapedPrices.push(...amounts);
+          listPrices.push(...amounts);
+        }
+      }
+    }
+    classifications.push(`${source}: ${describePrice(parsed)}${detail}`);
   }
 
-  if (allScrapedPrices.length === 0) {
+  if (Object.keys(comparable).length > 0) {
+    result.consensus = findConsensus(comparable, typedPrices, weights, rule);
+  }
+  const withClassifications = (note: string) =>
+    `${note}; ${classifications.join("; ")}`;
+
+  if (excel.amounts.length === 0) {
     result.status = "mismatch";
-    result.note = "Could not parse any scraped price as a number";
+    result.note = withClassifications("Could not parse Excel price as a number");
     return result;
   }
 
-  const minPrice = Math.min(...allScrapedPrices);
-  const maxPrice = Math.max(...allScrapedPrices);
+  const excelPrice = excel.amounts[0];
 
+  if (allScrapedPrices.length === 0) {
+    result.status = "missing";
+    result.note = withClassifications("No comparable scraped price");
+    return result;
+  }
+  const minPrice = Math.round(Math.min(...allScrapedPrices));
+  // A starting-from price above every list price still lifts the ceiling to
+  // its own minimum, so the range always contains each source's lowest price
+  const maxPrice =
+    listPrices.length > 0
+      ? Math.round(Math.max(...allScrapedPrices))
+      : Infinity;
+  const range = formatPriceRange(minPrice, maxPrice);
+
+  const slack = rule ? allowance(rule, excelPrice) : 0;
   if (excelPrice >= minPrice && excelPrice <= maxPrice) {
     result.status = "match";
-    result.note = `Excel price ${excelPrice.toLocaleString()} is within scraped range ${minPrice.toLocaleString()} - ${maxPrice.toLocaleString()}`;
+    result.note = `Excel price ${excelPrice.toLocaleString()} is within scraped range ${range}`;
+  } else if (
+    rule &&
+    excelPrice >= minPrice - slack &&
+    excelPrice <= maxPrice + slack
+  ) {
+    result.status = "within_tolerance";
+    result.note = `Excel price ${excelPrice.toLocaleString()} is within ${describeRule(rule)} of scraped range ${range}`;
   } else {
     result.status = "mismatch";
-    result.note = `Excel price ${excelPrice.toLocaleString()} is outside scraped range ${minPrice.toLocaleString()} - ${maxPrice.toLocaleString()}`;
+    result.note = `Excel price ${excelPrice.toLocaleString()} is outside scraped range ${range}`;
+    if (result.consensus && isStrongConsensus(result.consensus)) {
+      result.suggestion = result.consensus.value;
+    }
   }
 
+  result.note = withClassifications(result.note);
   return result;
 }
 
+function nearlyEqual(a: number, b: number, tolerance = 1e-9): boolean {
+  return Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+// Published figures are rounded in their own unit ("402 hp", "310 mi"), so
+// values that had to be converted only need to agree within 1%
+const CONVERSION_TOLERANCE = 0.01;
+
+/**
+ * Bring two unit-tagged amounts to a common unit. Returns the converted
+ * numbers and the tolerance to compare them with, or a note when the units
+ * measure different things (kW vs kWh) or have no known conversion. A bare
+ * number against a unit that has conversions ("402" vs "300 kW") can't be
+ * compared at all: the number may be in any unit of that quantity.
+ */
+function alignUnits(
+  a: { values: number[]; unit?: string },
+  b: { values: number[]; unit?: string }
+):
+  | { a: number[]; b: number[]; tolerance?: number }
+  | { note: string; notComparable?: boolean } {
+  if (a.unit === b.unit) {
+    return { a: a.values, b: b.values };
+  }
+  if (!a.unit || !b.unit) {
+    const unit = (a.unit ?? b.unit)!;
+    if (toCanonicalUnit(1, unit)) {
+      return { note: `only one value states a unit (${unit})`, notComparable: true };
+    }
+    return { a: a.values, b: b.values };
+  }
+
+  const convertedA = a.values.map((v) => toCanonicalUnit(v, a.unit!));
+  const convertedB = b.values.map((v) => toCanonicalUnit(v, b.unit!));
+  const quantityA = convertedA[0]?.quantity;
+  const quantityB = convertedB[0]?.quantity;
+  if (!quantityA || quantityA !== quantityB) {
+    return { note: `units differ (${a.unit} vs ${b.unit})` };
+  }
+
+  return {
+    a: convertedA.map((c) => c!.value),
+    b: convertedB.map((c) => c!.value),
+    tolerance: CONVERSION_TOLERANCE,
+  };
+}
+
+type Amount = Extract<SpecValue, { kind: "number" | "range" }>;
+
+function isAmount(value: SpecValue): value is Amount {
+  return value.kind === "number" || value.kind === "range";
+}
+
+/**
+ * Compare two typed values. Numbers and ranges agree when equal, when a
+ * number lies inside a range, or when two ranges overlap ("520 km" vs
+ * "475 - 570 km"). Returns null when the kinds can't be compared
+ * directly (e.g. a number against free text), so the caller falls back to
+ * string normalisation, and `notComparable` when they are amounts that
+ * can't be put in the same unit.
+ */
+function compareTyped(
+  a: SpecValue,
+  b: SpecValue,
+  rule?: ToleranceRule
+): {
+  equal: boolean;
+  withinTolerance?: boolean;
+  note?: string;
+  notComparable?: boolean;
+} | null {
+  if (isAmount(a) && isAmount(b)) {
+    const bounds = (v: Amount) =>
+      v.kind === "number" ? [v.value, v.value] : [v.min, v.max];
+    const aligned = alignUnits(
+      { values: bounds(a), unit: a.unit },
+      { values: bounds(b), unit: b.unit }
+    );
+    if ("note" in aligned) {
+      return { equal: false, note: aligned.note, notComparable: aligned.notComparable };
+    }
+    const [aMin, aMax] = aligned.a;
+    const [bMin, bMax] = aligned.b;
+
+    if (
+      nearlyEqual(aMin, bMin, aligned.tolerance) &&
+      nearlyEqual(aMax, bMax, aligned.tolerance)
+    ) {
+      return { equal: true };
+    }
+
+    // A value inside a range, or two ranges that overlap, agree
+    if (a.kind === "range" || b.kind === "range") {
+      const slack =
+        (aligned.tolerance ?? 0) * Math.max(Math.abs(aMax), Math.abs(bMax));
+      if (aMin <= bMax + slack && bMin <= aMax + slack) {
+        const note =
+          a.kind === "number"
+            ? `${formatSpecValue(a)} is within ${formatSpecValue(b)}`
+            : b.kind === "number"
+              ? `${formatSpecValue(b)} is within ${formatSpecValue(a)}`
+              : `${formatSpecValue(a)} overlaps ${formatSpecValue(b)}`;
+        return { equal: true, note };
+      }
+    }
+
+    if (rule) {
+      // Distance between the two values (or the nearest ends of the ranges)
+      const gap =
+        a.kind === "number" && b.kind === "number"
+          ? Math.abs(aMin - bMin)
+          : Math.max(0, aMin - bMax, bMin - aMax);
+      const reference = Math.max(Math.abs(aMin), Math.abs(aMax));
+      if (gap <= allowance(rule, reference) + 1e-9) {
+        return { equal: false, withinTolerance: true };
+      }
+    }
+
+    return aligned.tolerance
+      ? {
+          equal: false,
+          note: `${formatSpecValue(a)} vs ${formatSpecValue(b)} differ after unit conversion`,
+        }
+      : { equal: false };
+  }
+
+  if (a.kind === "duration" && b.kind === "duration") {
+    // Only compare the parts both sides state: "8 years" vs "8 yrs / 160,000 km" matches
+    let equal = true;
+    if (a.years !== undefined && b.years !== undefined) {
+      equal &&= nearlyEqual(a.years, b.years);
+    }
+    if (a.unlimitedDistance || b.unlimitedDistance) {
+      if (a.distanceKm !== undefined || b.distanceKm !== undefined) equal = false;
+    } else if (a.distanceKm !== undefined && b.distanceKm !== undefined) {
+      equal &&= nearlyEqual(a.distanceKm, b.distanceKm);
+    }
+    return { equal };
+  }
+
+  if (a.kind === "boolean" && b.kind === "boolean") {
+    return { equal: a.value === b.value };
+  }
+
+  const isWord = (v: SpecValue) => v.kind === "enum" || v.kind === "text";
+  if (isWord(a) && isWord(b)) {
+    return {
+      equal:
+        (a as { value: string }).value === (b as { value: string }).value,
+    };
+  }
+
+  return null;
+}
+
+// A consensus is strong enough to suggest a correction when at least this
+// many sources agree and they carry this share of the total trust weight
+const MIN_CONSENSUS_SOURCES = 2;
+const MIN_CONSENSUS_CONFIDENCE = 0.6;
+
+/** Whether two values agree, typed where possible and as strings otherwise. */
+function valuesAgree(
+  a: { raw: string; typed: SpecValue; site: string },
+  b: { raw: string; typed: SpecValue; site: string },
+  rule?: ToleranceRule
+): boolean {
+  const typed = compareTyped(a.typed, b.typed, rule);
+  if (typed) return typed.equal || !!typed.withinTolerance;
+  return (
+    normalizeValue(a.raw) === normalizeValue(b.raw) ||
+    getCanonicalValue(a.raw, a.site) === getCanonicalValue(b.raw, b.site)
+  );
+}
+
+/**
+ * Group the scraped values into sets whose members all agree with each other
+ * and pick the set with the most trust weight (sites default to a weight of 1). Ties go to
+ * the set with more sources, then to the first one seen.
+ */
+function findConsensus(
+  scrapedValues: Record<string, string>,
+  typedScraped: Record<string, SpecValue>,
+  weights: Record<string, number>,
+  rule?: ToleranceRule
+): Consensus | undefined {
+  const sources = Object.keys(scrapedValues);
+  if (sources.length === 0) return undefined;
+
+  const weightOf = (source: string) => weights[source] ?? 1;
+  const valueOf = (source: string) => ({
+    raw: scrapedValues[source],
+    typed:
+      typedScraped[source] ??
+      parseSpecValue(scrapedValues[source], undefined, source),
+    site: source,
+  });
+
+  const groups: Array<{ sources: string[]; weight: number }> = [];
+  for (const source of sources) {
+    // Agreement isn't transitive ("475 - 570 km" agrees with both 499 km and
+    // 521 km), so a value only joins a group that all of it agrees with
+    const group = groups.find((g) =>
+      g.sources.every((member) =>
+        valuesAgree(valueOf(member), valueOf(source), rule)
+      )
+    );
+    if (group) {
+      group.sources.push(source);
+      group.weight += weightOf(source);
+    } else {
+      groups.push({ sources: [source], weight: weightOf(source) });
+    }
+  }
+
+  const best = groups.reduce((a, b) =>
+    b.weight > a.weight ||
+    (b.weight === a.weight && b.sources.length > a.sources.length)
+      ? b
+      : a
+  );
+  const total = groups.reduce((sum, g) => sum + g.weight, 0);
+  const mostTrusted = best.sources.reduce((a, b) =>
+    weightOf(b) > weightOf(a) ? b : a
+  );
+
+  return {
+    value: scrapedValues[mostTrusted],
+    sources: best.sources,
+    confidence: total > 0 ? Math.round((best.weight / total) * 100) / 100 : 0,
+  };
+}
+
+function isStrongConsensus(consensus: Consensus): boolean {
+  return (
+    consensus.sources.length >= MIN_CONSENSUS_SOURCES &&
+    consensus.confidence >= MIN_CONSENSUS_CONFIDENCE
+  );
+}
+
+// Canonical acceleration fields (config/field-aliases.json); only these get
+// the sprint check, so "0-60 min" under a charging time isn't read as mph
+const ACCELERATION_FIELDS = new Set(["0-100_(s)", "0-60_mph_(s)"]);
+
+function isAccelerationField(keys: Array<string | undefined>): boolean {
+  return keys.some((key) => key !== undefined && ACCELERATION_FIELDS.has(canonicalField(key)));
+}
+
+/**
+ * Which sprint an acceleration figure measures, read from its key or value:
+ * "0-100_(s)" or "4.4 s (0-100 km/h)" → "0-100 km/h". Undefined when neither
+ * says.
+ */
+function accelerationBasis(key: string, value: string): string | undefined {
+  const text = `${key} ${value}`.toLowerCase().replace(/_/g, " ");
+  if (/\b0\s*(?:-|–|to)\s*60\b|\b60\s*mph\b/.test(text)) return "0-60 mph";
+  if (/\b0\s*(?:-|–|to)\s*100\b|\b100\s*km\/?h\b/.test(text)) return "0-100 km/h";
+  return undefined;
+}
+
 /**
  * Compare a single field's Excel value against scraped values from multiple
- * sources.  Returns a FieldComparison indicating match / mismatch / missing.
+ * sources.  Values are parsed into typed quantities first (number + unit,
+ * range, duration, boolean, enum); mixed kinds fall back to normalized
+ * string equality.  Sources listed in `notComparable` (e.g. a 0-60 mph time
+ * against a 0-100 km/h one), like amounts whose units can't be aligned, are
+ * reported but count as neither match nor mismatch.  Returns a FieldComparison indicating match / mismatch / missing.
  */
 function compareField(
   excelValue: string,
-  scrapedValues: Record<string, string>
+  scrapedValues: Record<string, string>,
+  typedExcel?: SpecValue,
+  typedScraped: Record<string, SpecValue> = {},
+  notComparable: Record<string, string> = {},
+  rule?: ToleranceRule & { field: string },
+  weights: Record<string, number> = {}
 ): FieldComparison {
   const result: FieldComparison = {
     excel: excelValue,
     scraped: scrapedValues,
     status: "missing",
+    ...(rule ? { rule } : {}),
   };
 
   const sources = Object.keys(scrapedValues);
@@ -240,23 +691,60 @@ function compareField(
     return result;
   }
 
+  const excelTyped = typedExcel ?? parseSpecValue(excelValue);
   const normalizedExcel = normalizeValue(excelValue);
   const canonicalExcel = getCanonicalValue(excelValue);
   let hasMatch = false;
   let hasMismatch = false;
+  let hasTolerated = false;
+  const unitNotes: string[] = [];
+  const matchedSources = new Set<string>();
+  const comparable: Record<string, string> = {};
 
   for (const source of sources) {
-    const normalizedScraped = normalizeValue(scrapedValues[source]);
-    const canonicalScraped = getCanonicalValue(scrapedValues[source]);
+    if (notComparable[source]) {
+      unitNotes.push(`${source}: ${notComparable[source]}`);
+      continue;
+    }
 
-    if (normalizedExcel === normalizedScraped || canonicalExcel === canonicalScraped) {
+    const scrapedTyped =
+      typedScraped[source] ??
+      parseSpecValue(scrapedValues[source], undefined, source);
+    const typed = compareTyped(excelTyped, scrapedTyped, rule);
+    if (typed?.notComparable) {
+      unitNotes.push(`${source}: ${typed.note}`);
+      continue;
+    }
+    comparable[source] = scrapedValues[source];
+
+    let matched: boolean;
+    if (typed) {
+      matched = typed.equal || !!typed.withinTolerance;
+      if (typed.withinTolerance) hasTolerated = true;
+      if (typed.note) unitNotes.push(`${source}: ${typed.note}`);
+    } else {
+      const normalizedScraped = normalizeValue(scrapedValues[source]);
+      const canonicalScraped = getCanonicalValue(scrapedValues[source], source);
+      matched =
+        normalizedExcel === normalizedScraped ||
+        canonicalExcel === canonicalScraped;
+    }
+
+    if (matched) {
       hasMatch = true;
+      matchedSources.add(source);
     } else {
       hasMismatch = true;
     }
   }
 
-  if (hasMatch && !hasMismatch) {
+  if (!hasMatch && !hasMismatch) {
+    result.status = "missing";
+    result.note = "No directly comparable scraped value";
+  } else if (hasMatch && !hasMismatch && hasTolerated) {
+    result.status = "within_tolerance";
+    result.note = `Within ${describeRule(rule!)}`;
+  } else if (hasMatch && !hasMismatch) {
     result.status = "match";
   } else if (hasMatch && hasMismatch) {
     result.status = "mismatch";
@@ -266,11 +754,73 @@ function compareField(
     result.note = "Value does not match any scraped source";
   }
 
+  if (unitNotes.length > 0) {
+    result.note = [result.note, ...unitNotes].filter(Boolean).join("; ");
+  }
+
+  const consensus = findConsensus(comparable, typedScraped, weights, rule);
+  if (consensus) {
+    result.consensus = consensus;
+    if (
+      result.status === "mismatch" &&
+      isStrongConsensus(consensus) &&
+      !consensus.sources.some((source) => matchedSources.has(source))
+    ) {
+      result.suggestion = consensus.value;
+    }
+  }
+
   return result;
 }
 
+const MIN_VARIANT_SITES = 2;
+
+/**
+ * Site variants of a car that none of `carVariants` matches, grouped across
+ * sites by similarity. Only groups seen on at least MIN_VARIANT_SITES sites
+ * are returned, so one site's oddly named trim isn't reported as a gap.
+ */
+function findMissingVariants(
+  carVariants: string[],
+  scrapedResults: Array<{
+    source: string;
+    variants: string[];
+    trims?: ScrapedTrim[];
+  }>,
+  car: { brand: string; model: string }
+): CoverageGaps["variants"] {
+  const known = carVariants.filter((v) => v.trim());
+  const groups: CoverageGaps["variants"] = [];
+
+  for (const result of scrapedResults) {
+    const names = new Set([
+      ...result.variants,
+      ...(result.trims ?? []).map((t) => t.name),
+    ]);
+    for (const name of names) {
+      if (!name.trim() || matchVariant(name, known, car)?.matched) continue;
+      const group = groups.find(
+        (g) => matchVariant(name, [g.variant], car)?.matched
+      );
+      if (!group) {
+        groups.push({ variant: name, sites: { [result.source]: name } });
+      } else if (!(result.source in group.sites)) {
+        group.sites[result.source] = name;
+      }
+    }
+  }
+
+  return groups.filter(
+    (g) => Object.keys(g.sites).length >= MIN_VARIANT_SITES
+  );
+}
+
 /**
  * Compare an Excel entry against scraped results from one or more web sources.
+ *
+ * Also reports coverage gaps: known fields the sites list but the row leaves
+ * blank, and variants listed on several sites that none of `carVariants` (the
+ * car's variants across the sheet, defaulting to the row's own) matches.
  */
 export function compareEntry(
   excelEntry: ExcelEntry,
@@ -278,55 +828,183 @@ export function compareEntry(
     source: string;
     price: string;
     specs: Record<string, string>;
+    typedSpecs?: Record<string, SpecValue>;
     variants: string[];
-  }>
+    trims?: ScrapedTrim[];
+    // SiteConfig.trustWeight of the source, used for the consensus value
+    trustWeight?: number;
+  }>,
+  rules: ComparisonRules = loadComparisonRules(),
+  rates: ExchangeRates = loadExchangeRates(),
+  carVariants: string[] = [excelEntry.variant]
 ): ComparisonResult {
   const car = `${excelEntry.brand} ${excelEntry.model}`.trim();
 
+  const weights: Record<string, number> = {};
+  for (const result of scrapedResults) {
+    if (result.trustWeight !== undefined) {
+      weights[result.source] = result.trustWeight;
+    }
+  }
+
+  // --- Trim selection ---
+  // Sites with a trim table are compared against the matched trim's own price
+  // and specs; page-level specs fill in whatever the trim row doesn't list
+  const trimsUsed: Record<string, string> = {};
+  const compared = scrapedResults.map((result) => {
+    if (!result.trims?.length) return result;
+    const best = matchVariant(
+      excelEntry.variant,
+      result.trims.map((t) => t.name),
+      excelEntry
+    );
+    const trim = best?.matched
+      ? result.trims.find((t) => t.name === best.variant)
+      : undefined;
+    if (!trim) return result;
+
+    trimsUsed[result.source] = trim.name;
+    return {
+      ...result,
+      price: trim.price || result.price,
+      specs: { ...result.specs, ...trim.specs },
+      typedSpecs: { ...result.typedSpecs, ...trim.typedSpecs },
+    };
+  });
+
   // --- Price comparison ---
   const priceScraped: Record<string, string> = {};
-  for (const result of scrapedResults) {
+  for (const result of compared) {
     if (result.price) {
       priceScraped[result.source] = result.price;
     }
   }
 
   const fields: Record<string, FieldComparison> = {};
-  fields["price"] = comparePriceField(excelEntry.price, priceScraped);
+  if (!isIgnored(rules, ["price"])) {
+    fields["price"] = comparePriceField(
+      excelEntry.price,
+      priceScraped,
+      findRule(rules, ["price"]),
+      weights,
+      excelEntry.priceCurrency,
+      rates
+    );
+  }
 
   // --- Specs comparison ---
+  // Canonical fields the row has a column for. A whole alias group is
+  // covered once any column matches it, so a site listing the field twice
+  // ("range" and "electric_range") doesn't report the second as a gap
+  const coveredFields = new Set<string>();
+  const cover = (key: string, site?: string) =>
+    coveredFields.add(normalizeTerm("fields", getFieldAliases(key, site)[0]));
   for (const [specKey, excelValue] of Object.entries(excelEntry.specs)) {
+    // Grouped headers ("Performance" / "0-100 (s)") fall back to the plain field
+    const plainKey = excelEntry.specGroups?.[specKey]?.field;
+    cover(specKey);
+    if (plainKey) cover(plainKey);
+    if (isIgnored(rules, [specKey, plainKey])) continue;
+
     const specScraped: Record<string, string> = {};
+    const typedScraped: Record<string, SpecValue> = {};
+    const notComparable: Record<string, string> = {};
+    const excelBasis = isAccelerationField([specKey, plainKey])
+      ? accelerationBasis(specKey, excelValue)
+      : undefined;
 
-    for (const result of scrapedResults) {
+    for (const result of compared) {
       const scrapedKeys = Object.keys(result.specs);
-      const matchedKey = findMatchingKey(specKey, scrapedKeys);
+      const matchedKey =
+        findMatchingKey(specKey, scrapedKeys, result.source) ??
+        (plainKey
+          ? findMatchingKey(plainKey, scrapedKeys, result.source)
+          : null);
 
       if (matchedKey !== null) {
+        cover(matchedKey, result.source);
         specScraped[result.source] = result.specs[matchedKey];
+        // Site labels rarely carry units, so the Excel column's unit is the
+        // fallback hint for bare numbers, including ones the scraper already
+        // parsed without a hint
+        const parsed = result.typedSpecs?.[matchedKey];
+        typedScraped[result.source] =
+          parsed && !(isAmount(parsed) && !parsed.unit)
+            ? parsed
+            : parseSpecValue(
+                result.specs[matchedKey],
+                unitHintFromKey(matchedKey, result.source) ??
+                  unitHintFromKey(specKey) ??
+                  (plainKey ? unitHintFromKey(plainKey) : undefined),
+                result.source
+              );
+
+        const scrapedBasis = accelerationBasis(
+          matchedKey,
+          result.specs[matchedKey]
+        );
+        if (excelBasis && scrapedBasis && excelBasis !== scrapedBasis) {
+          notComparable[result.source] =
+            `${scrapedBasis} and ${excelBasis} times are not directly comparable`;
+        }
       }
     }
 
-    fields[specKey] = compareField(excelValue, specScraped);
+    const typedExcel =
+      excelEntry.typedSpecs?.[specKey] ??
+      parseSpecValue(excelValue, unitHintFromKey(specKey));
+    fields[specKey] = compareField(
+      excelValue,
+      specScraped,
+      typedExcel,
+      typedScraped,
+      notComparable,
+      findRule(rules, [specKey, plainKey]),
+      weights
+    );
   }
 
   // --- Variant check ---
   const foundOnSites: string[] = [];
   const notFoundOnSites: string[] = [];
-  const excelVariantLower = excelEntry.variant.toLowerCase();
+  const matches: Record<string, { variant: string; score: number }> = {};
 
   for (const result of scrapedResults) {
-    const variantFound = result.variants.some((v) =>
-      v.toLowerCase().includes(excelVariantLower)
-    );
+    const best = matchVariant(excelEntry.variant, result.variants, excelEntry);
+    if (best) {
+      matches[result.source] = { variant: best.variant, score: best.score };
+    }
 
-    if (variantFound) {
+    if (best?.matched) {
       foundOnSites.push(result.source);
     } else {
       notFoundOnSites.push(result.source);
     }
   }
 
+  // --- Coverage gaps ---
+  // Scraped fields with a known canonical name that no Excel column covers
+  const missingFields = new Map<string, Record<string, string>>();
+  for (const result of compared) {
+    for (const [key, value] of Object.entries(result.specs)) {
+      if (!value.trim()) continue;
+      const group = findSynonymGroup("fields", key, result.source);
+      if (!group) continue;
+      const field = group[0];
+      if (coveredFields.has(normalizeTerm("fields", field))) continue;
+      if (sameField(field, "price") || isIgnored(rules, [field])) continue;
+
+      const scraped = missingFields.get(field) ?? {};
+      scraped[result.source] ??= value;
+      missingFields.set(field, scraped);
+    }
+  }
+
+  const coverage: CoverageGaps = {
+    fields: Array.from(missingFields, ([field, scraped]) => ({ field, scraped })),
+    variants: findMissingVariants(carVariants, scrapedResults, excelEntry),
+  };
+
   let variantStatus: "match" | "partial" | "missing";
   if (foundOnSites.length === scrapedResults.length) {
     variantStatus = "match";
@@ -337,6 +1015,7 @@ export function compareEntry(
   }
 
   return {
+    ...(excelEntry.sheetName ? { sheetName: excelEntry.sheetName } : {}),
     rowNumber: excelEntry.rowNumber,
     car,
     fields,
@@ -345,6 +1024,11 @@ export function compareEntry(
       foundOnSites,
       notFoundOnSites,
       status: variantStatus,
+      matches,
     },
+    ...(Object.keys(trimsUsed).length > 0 ? { trimsUsed } : {}),
+    ...(coverage.fields.length > 0 || coverage.variants.length > 0
+      ? { coverage }
+      : {}),
   };
 }
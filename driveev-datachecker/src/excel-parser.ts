@@ -1,107 +1,693 @@
 import XLSX from "xlsx";
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { validateEntries, type ValidationWarning } from "./validator.js";
+import { loadAllConfigs, detectSiteKey, type SiteConfig } from "./scraper.js";
+import { parseSpecs, type SpecValue } from "./spec-values.js";
+import { detectCurrency } from "./price-parser.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
 
 export interface ExcelEntry {
+  sheetName?: string; // worksheet the row came from
   rowNumber: number;
   brand: string;
   model: string;
   variant: string;
   price: string;
+  // Currency named in the price column header, e.g. "Price (SAR)"
+  priceCurrency?: string;
   specs: Record<string, string>;
+  // The same specs parsed into typed values (number + unit, range, duration…)
+  typedSpecs?: Record<string, SpecValue>;
+  // For specs under a grouped header: the group label and the plain field
+  // key, e.g. "performance_0-100_(s)" -> { group: "Performance", field: "0-100_(s)" }
+  specGroups?: Record<string, { group: string; field: string }>;
+  // Page URLs from source columns ("YallaMotor URL"), keyed by site config key
+  sourceUrls?: Record<string, string>;
 }
 
 // Required columns (matched case-insensitively)
 const REQUIRED_COLUMNS = ["brand", "model", "variant", "price"] as const;
 
+export type RequiredColumn = (typeof REQUIRED_COLUMNS)[number];
+
+/** Explicit header names for required fields, e.g. { brand: "Make" }. */
+export type ColumnMapping = Partial<Record<RequiredColumn, string>>;
+
+export interface ColumnMatch {
+  header: string;
+  matchedBy: "mapping" | "exact" | "alias" | "fuzzy";
+  score?: number; // similarity, only for fuzzy matches
+}
+
+export interface ParseOptions {
+  sheetName?: string;
+  // Parse every sheet that has the required columns (ignores sheetName)
+  allSheets?: boolean;
+  // 1-based spreadsheet row holding the column names; detected if omitted
+  headerRow?: number;
+  columnMapping?: ColumnMapping;
+  // Save the headers from `columnMapping` to the alias file for next time
+  rememberMapping?: boolean;
+}
+
+export interface ParsedSheet {
+  sheetName: string;
+  // Empty when the sheet has no data rows
+  columns: Partial<Record<RequiredColumn, ColumnMatch>>;
+  headerRow: number; // 1-based spreadsheet row of the column names
+  groupRows: number[]; // group header rows above it, if any
+  // Source URL columns and the site each maps to (none for a generic
+  // "Source URL" column, where each cell's host decides)
+  urlColumns: Array<{ header: string; site?: string }>;
+}
+
+export interface ParsedWorkbook {
+  entries: ExcelEntry[];
+  sheets: ParsedSheet[];
+  // All-sheets mode only: sheets that could not be parsed, with the reason
+  skippedSheets: Array<{ sheetName: string; reason: string }>;
+  // Row-level problems found before any scraping (empty fields, duplicates,
+  // non-numeric or implausible values)
+  warnings: ValidationWarning[];
+}
+
+const ALIASES_PATH = path.join(__dirname, "..", "config", "column-aliases.json");
+
+const FUZZY_THRESHOLD = 0.8;
+
 /**
- * Find the actual column header name that matches a required key (case-insensitive).
- * Returns the original header name from the Excel, or null if not found.
+ * Load the persisted header aliases for each required field.
+ * A missing or broken file just means no aliases.
+ */
+export function loadColumnAliases(): Record<RequiredColumn, string[]> {
+  const aliases: Record<RequiredColumn, string[]> = {
+    brand: [],
+    model: [],
+    variant: [],
+    price: [],
+  };
+  if (!fs.existsSync(ALIASES_PATH)) return aliases;
+  try {
+    const stored = JSON.parse(fs.readFileSync(ALIASES_PATH, "utf-8"));
+    for (const column of REQUIRED_COLUMNS) {
+      if (Array.isArray(stored[column])) {
+        aliases[column] = stored[column].map((a: unknown) => String(a));
+      }
+    }
+  } catch (err) {
+    console.error(`Failed to parse column aliases "${ALIASES_PATH}":`, err);
+  }
+  return aliases;
+}
+
+/**
+ * Append the headers of a column mapping to the alias file so the same sheet
+ * layout parses without a mapping next time.
+ */
+export function saveColumnAliases(mapping: ColumnMapping): void {
+  const aliases = loadColumnAliases();
+  for (const column of REQUIRED_COLUMNS) {
+    const header = mapping[column];
+    if (!header) continue;
+    const lower = header.toLowerCase().trim();
+    if (lower !== column && !aliases[column].includes(lower)) {
+      aliases[column].push(lower);
+    }
+  }
+  fs.writeFileSync(ALIASES_PATH, JSON.stringify(aliases, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Find the column whose header matches a name (case-insensitive), skipping
+ * columns already taken. Returns the column index, or -1 if not found.
  */
 function findColumnHeader(
   headers: string[],
-  target: string
-): string | null {
-  const targetLower = target.toLowerCase();
-  for (const header of headers) {
-    if (header.toLowerCase().trim() === targetLower) {
+  target: string,
+  used: Set<number> = new Set()
+): number {
+  const targetLower = target.toLowerCase().trim();
+  return headers.findIndex(
+    (header, index) =>
+      !used.has(index) && header && header.toLowerCase().trim() === targetLower
+  );
+}
+
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/** Edit distance where swapping two adjacent letters counts as one edit. */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * Similarity between a sheet header and a known name, from 0 to 1.
+ * Uses edit distance, but a header that contains every word of the name plus
+ * at most one extra word ("Car Brand", "Price AED") also scores high.
+ */
+function headerSimilarity(header: string, name: string): number {
+  const h = normalizeHeader(header);
+  const n = normalizeHeader(name);
+  if (!h || !n) return 0;
+  if (h === n) return 1;
+
+  const maxLen = Math.max(h.length, n.length);
+  const editScore = 1 - editDistance(h, n) / maxLen;
+
+  const headerTokens = h.split(" ");
+  const nameTokens = n.split(" ");
+  const containsAll = nameTokens.every((t) => headerTokens.includes(t));
+  const tokenScore =
+    containsAll && headerTokens.length - nameTokens.length <= 1 ? 0.8 : 0;
+
+  return Math.max(editScore, tokenScore);
+}
+
+interface ResolvedColumn extends ColumnMatch {
+  index: number;
+}
+
+interface ColumnResolution {
+  resolved: Partial<Record<RequiredColumn, ResolvedColumn>>;
+  missing: string[];
+}
+
+/**
+ * Resolve each required field to a sheet column, in order of preference:
+ * explicit mapping, exact name, persisted alias, then fuzzy match.
+ * A column is only ever assigned to one field.
+ */
+function matchColumns(
+  headers: string[],
+  mapping: ColumnMapping,
+  aliases: Record<RequiredColumn, string[]>
+): ColumnResolution {
+  const resolved: Partial<Record<RequiredColumn, ResolvedColumn>> = {};
+  const used = new Set<number>();
+  const missing: string[] = [];
+
+  const assign = (
+    required: RequiredColumn,
+    index: number,
+    matchedBy: ColumnMatch["matchedBy"],
+    score?: number
+  ) => {
+    resolved[required] = { header: headers[index], matchedBy, index };
+    if (score !== undefined) resolved[required]!.score = score;
+    used.add(index);
+  };
+
+  for (const required of REQUIRED_COLUMNS) {
+    const mapped = mapping[required];
+    if (!mapped) continue;
+    const index = findColumnHeader(headers, mapped, used);
+    if (index === -1) {
+      missing.push(`${required} (mapped to "${mapped}", which is not in the sheet)`);
+    } else {
+      assign(required, index, "mapping");
+    }
+  }
+
+  for (const required of REQUIRED_COLUMNS) {
+    if (resolved[required] || mapping[required]) continue;
+    const index = findColumnHeader(headers, required, used);
+    if (index !== -1) assign(required, index, "exact");
+  }
+
+  for (const required of REQUIRED_COLUMNS) {
+    if (resolved[required] || mapping[required]) continue;
+    for (const alias of aliases[required]) {
+      const index = findColumnHeader(headers, alias, used);
+      if (index !== -1) {
+        assign(required, index, "alias");
+        break;
+      }
+    }
+  }
+
+  for (const required of REQUIRED_COLUMNS) {
+    if (resolved[required] || mapping[required]) continue;
+    const names = [required, ...aliases[required]];
+    // Ties go to the header closest in length ("Modle" over "Model Year")
+    const ranked = headers
+      .map((header, index) => ({
+        header,
+        index,
+        score: Math.max(...names.map((n) => headerSimilarity(header, n))),
+      }))
+      .filter((r) => r.header && !used.has(r.index))
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          Math.abs(a.header.length - required.length) -
+            Math.abs(b.header.length - required.length)
+      );
+
+    const best = ranked[0];
+    if (best && best.score >= FUZZY_THRESHOLD) {
+      assign(required, best.index, "fuzzy", Math.round(best.score * 100) / 100);
+      continue;
+    }
+
+    const closest = ranked
+      .slice(0, 3)
+      .filter((r) => r.score > 0)
+      .map((r) => `"${r.header}" (${Math.round(r.score * 100)}%)`);
+    missing.push(
+      closest.length > 0
+        ? `${required} (closest: ${closest.join(", ")})`
+        : required
+    );
+  }
+
+  return { resolved, missing };
+}
+
+// How many rows from the top to search for the header row
+const HEADER_SCAN_ROWS = 20;
+
+type Grid = string[][];
+
+/**
+ * Read a sheet as a grid of trimmed strings covering its full range, so grid
+ * row i is spreadsheet row `firstRow + i`. Merged cells are filled with their
+ * top-left value, which spreads a group label ("Performance") across every
+ * column under it and copies vertically merged headers into each row.
+ */
+function readGrid(sheet: XLSX.WorkSheet): { grid: Grid; firstRow: number } {
+  const ref = sheet["!ref"];
+  if (!ref) return { grid: [], firstRow: 1 };
+  const range = XLSX.utils.decode_range(ref);
+
+  const raw = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    blankrows: true,
+    defval: "",
+  });
+  const width = range.e.c - range.s.c + 1;
+  const grid: Grid = raw.map((row) =>
+    Array.from({ length: width }, (_, c) => String(row[c] ?? "").trim())
+  );
+
+  for (const merge of sheet["!merges"] ?? []) {
+    const top = merge.s.r - range.s.r;
+    const left = merge.s.c - range.s.c;
+    const value = grid[top]?.[left] ?? "";
+    for (let r = top; r <= merge.e.r - range.s.r; r++) {
+      for (let c = left; c <= merge.e.c - range.s.c; c++) {
+        if (grid[r] && c >= 0 && c < width && !grid[r][c]) grid[r][c] = value;
+      }
+    }
+  }
+
+  return { grid, firstRow: range.s.r + 1 };
+}
+
+/**
+ * Find the header row: the first row in which every required field resolves.
+ * When vertically merged headers make several stacked rows resolve, the
+ * lowest one holds the real column names and the rows above are groups.
+ * Falls back to the row with the most filled cells so the caller's error
+ * message lists sensible candidates.
+ */
+function detectHeaderRow(
+  grid: Grid,
+  mapping: ColumnMapping,
+  aliases: Record<RequiredColumn, string[]>
+): number {
+  const limit = Math.min(grid.length, HEADER_SCAN_ROWS);
+  let busiest = 0;
+  let busiestCount = -1;
+  for (let i = 0; i < limit; i++) {
+    const filled = grid[i].filter(Boolean).length;
+    if (filled === 0) continue;
+    if (matchColumns(grid[i], mapping, aliases).missing.length === 0) {
+      let header = i;
+      while (
+        header + 1 < grid.length &&
+        matchColumns(grid[header + 1], mapping, aliases).missing.length === 0
+      ) {
+        header++;
+      }
       return header;
     }
+    if (filled > busiestCount) {
+      busiest = i;
+      busiestCount = filled;
+    }
   }
-  return null;
+  return busiest;
 }
 
-export function parseExcelFile(
-  filePath: string,
-  sheetName?: string
-): ExcelEntry[] {
-  let workbook: XLSX.WorkBook;
+/**
+ * Collect the group rows directly above the header row. Stops at a blank row
+ * or a title banner (a single label in the first column, or one label that
+ * spans every column).
+ */
+function findGroupRows(grid: Grid, headerIndex: number): number[] {
+  const groupRows: number[] = [];
+  for (let i = headerIndex - 1; i >= 0; i--) {
+    const filled = grid[i].filter(Boolean);
+    if (filled.length === 0) break;
+    const distinct = new Set(filled);
+    const isBanner =
+      distinct.size === 1 &&
+      (filled.length === grid[i].length || grid[i][0] !== "");
+    if (isBanner) break;
+    groupRows.unshift(i);
+  }
+  return groupRows;
+}
+
+function toSpecKey(header: string): string {
+  return header.toLowerCase().replace(/\s+/g, "_");
+}
+
+/** Input formats, by file extension. Anything else is handed to SheetJS. */
+export type InputFormat = "xlsx" | "csv" | "json" | "ods";
+
+export function detectInputFormat(filePath: string): InputFormat {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === ".csv") return "csv";
+  if (ext === ".json") return "json";
+  if (ext === ".ods") return "ods";
+  return "xlsx";
+}
+
+/**
+ * Load a spreadsheet-like file as a workbook. CSV is read as plain text so
+ * values like "5 yrs" or "07/2025" are not reinterpreted; JSON must be an
+ * array of row objects and becomes a single sheet named after the file.
+ */
+export function readWorkbook(filePath: string): XLSX.WorkBook {
+  const format = detectInputFormat(filePath);
   try {
-    workbook = XLSX.readFile(filePath);
+    if (format === "json") {
+      const rows = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      if (
+        !Array.isArray(rows) ||
+        rows.some((r) => r === null || typeof r !== "object" || Array.isArray(r))
+      ) {
+        throw new Error("expected a JSON array of row objects");
+      }
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.json_to_sheet(rows),
+        path.basename(filePath, path.extname(filePath)).slice(0, 31) || "Sheet1"
+      );
+      return workbook;
+    }
+    return XLSX.readFile(filePath, format === "csv" ? { raw: true } : {});
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
-    throw new Error(`Failed to read Excel file "${filePath}": ${message}`);
+    throw new Error(`Failed to read ${format.toUpperCase()} file "${filePath}": ${message}`);
   }
+}
 
-  const targetSheet = sheetName || workbook.SheetNames[0];
-  if (!targetSheet || !workbook.Sheets[targetSheet]) {
-    const available = workbook.SheetNames.join(", ");
-    throw new Error(
-      `Sheet "${targetSheet}" not found. Available sheets: ${available}`
-    );
-  }
+// Headers like "YallaMotor URL", "Source URL (dubicars)" or "Tesla Link"
+const URL_HEADER = /\b(url|link)s?\b/i;
 
-  const sheet = workbook.Sheets[targetSheet];
-  const rows = XLSX.utils.sheet_to_json<Record<string, string>>(sheet);
+function compactName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
 
-  if (rows.length === 0) {
-    return [];
+/**
+ * Work out which site a source URL column belongs to from its header, by
+ * looking for a site's config key, display name or domain name in it.
+ * Returns undefined for generic headers such as "Source URL".
+ */
+function siteForUrlHeader(
+  header: string,
+  configs: Record<string, SiteConfig>
+): string | undefined {
+  const compactHeader = compactName(header);
+  for (const [key, config] of Object.entries(configs)) {
+    const names = [key, config.name];
+    try {
+      // "www.zigwheels.ae" -> "zigwheels"
+      const labels = new URL(config.baseUrl).hostname.split(".");
+      names.push(labels.length > 1 ? labels[labels.length - 2] : labels[0]);
+    } catch {
+      // Bad baseUrl: match on key and name only
+    }
+    if (names.some((n) => n && compactHeader.includes(compactName(n)))) {
+      return key;
+    }
   }
+  return undefined;
+}
 
-  // Detect column headers from the first row's keys (case-insensitive)
-  const firstRowKeys = Object.keys(rows[0]);
-  const columnMap: Record<string, string> = {};
-  const missingColumns: string[] = [];
+/**
+ * Parse one worksheet: find its header row, resolve the required columns and
+ * turn every non-blank row below it into an entry tagged with the sheet name.
+ */
+function parseSheet(
+  sheet: XLSX.WorkSheet,
+  sheetName: string,
+  options: ParseOptions,
+  configs: Record<string, SiteConfig>
+): ParsedSheet & { entries: ExcelEntry[]; warnings: ValidationWarning[] } {
+  const { columnMapping = {} } = options;
+  const { grid, firstRow } = readGrid(sheet);
 
-  for (const required of REQUIRED_COLUMNS) {
-    const found = findColumnHeader(firstRowKeys, required);
-    if (found) {
-      columnMap[required] = found;
-    } else {
-      missingColumns.push(required);
+  if (grid.every((row) => row.every((cell) => !cell))) {
+    return {
+      sheetName,
+      entries: [],
+      warnings: [],
+      columns: {},
+      headerRow: firstRow,
+      groupRows: [],
+      urlColumns: [],
+    };
+  }
+
+  const aliases = loadColumnAliases();
+  let headerIndex: number;
+  if (options.headerRow !== undefined) {
+    headerIndex = options.headerRow - firstRow;
+    if (headerIndex < 0 || headerIndex >= grid.length) {
+      throw new Error(
+        `Sheet "${sheetName}": header row ${options.headerRow} is outside the sheet (rows ${firstRow}-${firstRow + grid.length - 1})`
+      );
     }
+  } else {
+    headerIndex = detectHeaderRow(grid, columnMapping, aliases);
   }
 
-  if (missingColumns.length > 0) {
+  const headers = grid[headerIndex];
+  const { resolved, missing } = matchColumns(headers, columnMapping, aliases);
+  if (missing.length > 0) {
     throw new Error(
-      `Missing required columns: ${missingColumns.join(", ")}. ` +
-        `Found columns: ${firstRowKeys.join(", ")}. ` +
-        `Expected (case-insensitive): Brand, Model, Variant, Price`
+      `Sheet "${sheetName}": missing required columns: ${missing.join("; ")}. ` +
+        `Found columns (row ${firstRow + headerIndex}): ${headers.filter(Boolean).join(", ")}. ` +
+        `Expected (case-insensitive): Brand, Model, Variant, Price, or one of the aliases in config/column-aliases.json. ` +
+        `Pass a columnMapping to pick the headers explicitly, or a headerRow if the header was not detected.`
     );
   }
+  const columns = resolved as Record<RequiredColumn, ResolvedColumn>;
+
+  // Spec keys combine the group labels above a column with its own header,
+  // e.g. "Charging" + "DC (kW)" -> "charging_dc_(kw)"
+  const groupRows = findGroupRows(grid, headerIndex);
+  const requiredIndexes = new Set(REQUIRED_COLUMNS.map((r) => columns[r].index));
+  const specColumns: Array<{ index: number; key: string; group?: string; field: string }> = [];
+  const urlColumns: Array<{ index: number; header: string; site?: string }> = [];
+  const seenKeys = new Map<string, number>();
+
+  headers.forEach((header, index) => {
+    if (!header || requiredIndexes.has(index)) return;
+
+    // Source URL columns are not specs
+    if (URL_HEADER.test(header)) {
+      const site = siteForUrlHeader(header, configs);
+      urlColumns.push({ index, header, ...(site ? { site } : {}) });
+      return;
+    }
+
+    const groups = groupRows
+      .map((r) => grid[r][index])
+      .filter((g, i, all) => g && g !== header && all.indexOf(g) === i);
+    const group = groups.join(" ");
+    let key = toSpecKey(group ? `${group} ${header}` : header);
 
-  const knownColumnNames = new Set(Object.values(columnMap));
+    // Repeated headers get a numeric suffix instead of overwriting each other
+    const count = seenKeys.get(key) ?? 0;
+    seenKeys.set(key, count + 1);
+    if (count > 0) key = `${key}_${count + 1}`;
 
-  return rows.map((row, index) => {
-    const brand = String(row[columnMap["brand"]] || "").trim();
-    const model = String(row[columnMap["model"]] || "").trim();
-    const variant = String(row[columnMap["variant"]] || "").trim();
-    const price = String(row[columnMap["price"]] || "").trim();
+    specColumns.push({
+      index,
+      key,
+      field: toSpecKey(header),
+      ...(group ? { group } : {}),
+    });
+  });
+
+  const priceCurrency = detectCurrency(columns.price.header);
+  const entries: ExcelEntry[] = [];
+  const warnings: ValidationWarning[] = [];
+  for (let i = headerIndex + 1; i < grid.length; i++) {
+    const row = grid[i];
+    if (row.every((cell) => !cell)) continue;
+    const rowNumber = firstRow + i; // true spreadsheet row, 1-based
+
+    // A URL's own host wins over the column's site, so a DubiCars link
+    // pasted into the YallaMotor column still goes to DubiCars
+    const sourceUrls: Record<string, string> = {};
+    for (const column of urlColumns) {
+      const value = row[column.index];
+      if (!value) continue;
+      const warning = { sheetName, rowNumber, field: column.header, value };
+      if (!/^https?:\/\/\S+$/i.test(value)) {
+        warnings.push({
+          ...warning,
+          code: "invalid_url",
+          message: `"${column.header}" does not hold an http(s) URL`,
+        });
+        continue;
+      }
+      const site = detectSiteKey(value, configs) ?? column.site;
+      if (!site) {
+        warnings.push({
+          ...warning,
+          code: "unknown_site",
+          message: `No site config matches ${value}`,
+        });
+        continue;
+      }
+      sourceUrls[site] = value;
+    }
 
     // Everything else goes into specs
     const specs: Record<string, string> = {};
-    for (const [key, value] of Object.entries(row)) {
-      if (knownColumnNames.has(key)) continue;
-      if (value !== undefined && value !== "") {
-        specs[key.toLowerCase().replace(/\s+/g, "_")] = String(value).trim();
+    const specGroups: NonNullable<ExcelEntry["specGroups"]> = {};
+    for (const column of specColumns) {
+      const value = row[column.index];
+      if (!value) continue;
+      specs[column.key] = value;
+      if (column.group) {
+        specGroups[column.key] = { group: column.group, field: column.field };
       }
     }
 
-    return {
-      rowNumber: index + 2, // +2 because row 1 is header, index is 0-based
-      brand,
-      model,
-      variant,
-      price,
+    entries.push({
+      sheetName,
+      rowNumber,
+      brand: row[columns.brand.index],
+      model: row[columns.model.index],
+      variant: row[columns.variant.index],
+      price: row[columns.price.index],
+      ...(priceCurrency ? { priceCurrency } : {}),
       specs,
-    };
-  });
+      typedSpecs: parseSpecs(specs),
+      ...(Object.keys(specGroups).length > 0 ? { specGroups } : {}),
+      ...(Object.keys(sourceUrls).length > 0 ? { sourceUrls } : {}),
+    });
+  }
+
+  const columnMatches: ParsedSheet["columns"] = {};
+  for (const required of REQUIRED_COLUMNS) {
+    const { index: _index, ...match } = columns[required];
+    columnMatches[required] = match;
+  }
+
+  return {
+    sheetName,
+    entries,
+    warnings,
+    columns: columnMatches,
+    headerRow: firstRow + headerIndex,
+    groupRows: groupRows.map((r) => firstRow + r),
+    urlColumns: urlColumns.map(({ index: _index, ...column }) => column),
+  };
+}
+
+export function parseExcelFile(
+  filePath: string,
+  options: ParseOptions = {}
+): ParsedWorkbook {
+  const { sheetName, columnMapping = {} } = options;
+
+  const workbook = readWorkbook(filePath);
+  const configs = loadAllConfigs();
+
+  const result: ParsedWorkbook = {
+    entries: [],
+    sheets: [],
+    skippedSheets: [],
+    warnings: [],
+  };
+
+  if (options.allSheets) {
+    // Sheets without a recognisable header (notes, lookups) are skipped
+    for (const name of workbook.SheetNames) {
+      try {
+        const { entries, warnings, ...layout } = parseSheet(
+          workbook.Sheets[name],
+          name,
+          options,
+          configs
+        );
+        result.entries.push(...entries);
+        result.warnings.push(...warnings);
+        result.sheets.push(layout);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        result.skippedSheets.push({ sheetName: name, reason: message });
+      }
+    }
+    if (result.sheets.length === 0) {
+      throw new Error(
+        `No sheet in "${filePath}" has the required columns. ` +
+          result.skippedSheets.map((s) => s.reason).join(" | ")
+      );
+    }
+  } else {
+    const targetSheet = sheetName || workbook.SheetNames[0];
+    if (!targetSheet || !workbook.Sheets[targetSheet]) {
+      const available = workbook.SheetNames.join(", ");
+      throw new Error(
+        `Sheet "${targetSheet}" not found. Available sheets: ${available}`
+      );
+    }
+    const { entries, warnings, ...layout } = parseSheet(
+      workbook.Sheets[targetSheet],
+      targetSheet,
+      options,
+      configs
+    );
+    result.entries = entries;
+    result.warnings = warnings;
+    result.sheets.push(layout);
+  }
+
+  if (options.rememberMapping && Object.keys(columnMapping).length > 0) {
+    saveColumnAliases(columnMapping);
+  }
+
+  result.warnings.push(...validateEntries(result.entries));
+  return result;
 }
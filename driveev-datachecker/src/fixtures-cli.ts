@@ -0,0 +1,57 @@
+/**
+ * Command line for site fixtures:
+ *
+ *   node dist/fixtures-cli.js [site...]                 check fixtures (all sites by default)
+ *   node dist/fixtures-cli.js record <site> <url> [name] capture a page as a fixture
+ *
+ * Exits with status 1 when a check fails, a config is invalid or an enabled
+ * site has no fixture.
+ */
+
+import { recordFixture, runFixtureTests } from "./fixtures.js";
+import { closeBrowser } from "./browser-scraper.js";
+
+async function main(args: string[]): Promise<number> {
+  if (args[0] === "record") {
+    const [, site, url, name] = args;
+    if (!site || !url) {
+      console.log("Usage: fixtures-cli record <site> <url> [name]");
+      return 1;
+    }
+    const { dir, expected } = await recordFixture(site, url, name);
+    console.log(`Recorded ${dir}`);
+    console.log(JSON.stringify(expected, null, 2));
+    console.log("Check expected.json before committing the fixture.");
+    return 0;
+  }
+
+  const run = await runFixtureTests(args.length > 0 ? args : undefined);
+  for (const check of run.checks) {
+    const label = `${check.site}/${check.fixture} (${check.strategy}${check.handWritten ? ", hand-written" : ""})`;
+    if (check.passed) {
+      console.log(`PASS ${label}`);
+    } else {
+      console.log(`FAIL ${label}`);
+      for (const failure of check.failures) console.log(`  - ${failure}`);
+    }
+  }
+  for (const { site, errors } of run.invalidConfigs) {
+    console.log(`FAIL ${site}: invalid config`);
+    for (const error of errors) console.log(`  - ${error}`);
+  }
+  for (const site of run.sitesWithoutFixtures) {
+    console.log(`FAIL ${site}: no fixtures (record one with: npm run record-fixture -- ${site} <url>)`);
+  }
+  console.log(`${run.passed} passed, ${run.failed} failed`);
+  return run.failed > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2))
+  .catch((err) => {
+    console.error("Fatal error:", err instanceof Error ? err.message : err);
+    return 1;
+  })
+  .then(async (code) => {
+    await closeBrowser();
+    process.exit(code);
+  });
@@ -0,0 +1,403 @@
+/**
+ * Recorded pages per site config, so a selector change can be checked
+ * without hitting the live sites. Each fixture is a directory
+ * fixtures/<site>/<name>/ holding:
+ *
+ *   page.html      the HTML as fetched (replayed through the cheerio strategy)
+ *   rendered.html  the DOM after Playwright rendered it, scripts removed
+ *   expected.json  what each strategy extracted when the page was recorded
+ *
+ * Tests serve the files from a local static server and scrape them with the
+ * site's current config. rendered.html is already the snapshot Playwright
+ * caches, so it is replayed through the snapshot cache and needs no browser.
+ *
+ * A fixture can also be written by hand, cut down to what the selectors read.
+ * Its expected.json says "handWritten": true and has no recordedAt; its url
+ * is the page it imitates, and passing only shows the selectors match the
+ * markup as written, not the live site.
+ */
+
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import type { AddressInfo } from "net";
+import {
+  fetchWithRetry,
+  scrapeWithCheerio,
+  requireSiteConfig,
+  readSiteConfig,
+  listSites,
+  slugify,
+  type ScrapedData,
+  type SiteConfig,
+} from "./scraper.js";
+import { scrapeWithBrowser, snapshotPage } from "./browser-scraper.js";
+import { cachedFetch, loadCacheSettings } from "./page-cache.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEFAULT_FIXTURES_DIR = path.join(__dirname, "..", "fixtures");
+
+export type FixtureStrategy = "cheerio" | "playwright";
+
+/** What a strategy should extract from a fixture page. */
+export interface FixtureExpectation {
+  title: string;
+  price: string;
+  // Every key must be extracted; extra keys are fine
+  specKeys: string[];
+  variants: string[];
+  // Trim rows, for sites with trim selectors; extra spec keys are fine here too
+  trims?: Array<{ name: string; price: string; specKeys: string[] }>;
+}
+
+export interface FixtureExpected {
+  url: string;
+  recordedAt?: string; // ISO timestamp; absent for hand-written fixtures
+  handWritten?: boolean;
+  // What the fixture hasn't been checked against, for whoever records it
+  note?: string;
+  // Only strategies that extracted something when recorded are checked
+  cheerio?: FixtureExpectation;
+  playwright?: FixtureExpectation;
+}
+
+export interface FixtureCheck {
+  site: string;
+  fixture: string;
+  strategy: FixtureStrategy;
+  handWritten?: boolean;
+  passed: boolean;
+  failures: string[];
+}
+
+export interface FixtureRun {
+  checks: FixtureCheck[];
+  passed: number;
+  failed: number;
+  // Enabled sites with no fixture; each one fails the run
+  sitesWithoutFixtures: string[];
+  // Configs that fail validation; each one fails the run too
+  invalidConfigs: Array<{ site: string; errors: string[] }>;
+}
+
+const PAGE_FILES: Record<FixtureStrategy, string> = {
+  cheerio: "page.html",
+  playwright: "rendered.html",
+};
+const EXPECTED_FILE = "expected.json";
+
+/** Fixture names recorded for `site` (directories with an expected.json). */
+export function listFixtures(
+  site: string,
+  fixturesDir: string = DEFAULT_FIXTURES_DIR
+): string[] {
+  const siteDir = path.join(fixturesDir, site);
+  if (!fs.existsSync(siteDir)) return [];
+  return fs
+    .readdirSync(siteDir)
+    .filter((f) => fs.existsSync(path.join(siteDir, f, EXPECTED_FILE)))
+    .sort();
+}
+
+/** Path of the page a strategy replays for a fixture (it may not exist). */
+export function fixturePagePath(
+  site: string,
+  fixture: string,
+  strategy: FixtureStrategy,
+  fixturesDir: string = DEFAULT_FIXTURES_DIR
+): string {
+  return path.join(fixturesDir, site, fixture, PAGE_FILES[strategy]);
+}
+
+/**
+ * Serve `root` over HTTP on a free local port. Only files inside `root` are
+ * served; anything else is a 404, and a path that doesn't decode is a 400.
+ */
+async function serveDirectory(
+  root: string
+): Promise<{ baseUrl: string; close: () => Promise<void> }> {
+  const server = http.createServer((req, res) => {
+    let requested: string;
+    try {
+      requested = decodeURIComponent(new URL(req.url ?? "/", "http://x").pathname);
+    } catch {
+      res.writeHead(400);
+      res.end();
+      return;
+    }
+    const file = path.join(root, requested);
+    if (!file.startsWith(root + path.sep) || !fs.existsSync(file) || !fs.statSync(file).isFile()) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(fs.readFileSync(file));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+async function scrapeFixture(
+  strategy: FixtureStrategy,
+  url: string,
+  file: string,
+  site: string,
+  config: SiteConfig
+): Promise<ScrapedData | null> {
+  if (strategy === "cheerio") {
+    // Fixtures must always be scraped fresh, never from the page cache
+    return scrapeWithCheerio(url, site, config, loadCacheSettings({ mode: "off" }));
+  }
+
+  // A throwaway cache holding only this snapshot, read back offline
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fixture-cache-"));
+  try {
+    const cache = loadCacheSettings({ mode: "refresh", dir });
+    await cachedFetch(url, "snapshot", cache, async () => fs.readFileSync(file, "utf-8"));
+    return await scrapeWithBrowser(url, site, config, { ...cache, mode: "offline" });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * The parts of a scrape a fixture checks. Trim names stand in for the
+ * variant list when the page has none, as in scrapeEvData.
+ */
+function toExpectation(data: ScrapedData | null): FixtureExpectation | undefined {
+  if (!data) return undefined;
+  const variants =
+    data.data.variants.length > 0
+      ? data.data.variants
+      : (data.data.trims ?? []).map((t) => t.name);
+  const expectation: FixtureExpectation = {
+    title: data.data.title,
+    price: data.data.price,
+    specKeys: Object.keys(data.data.specs).sort(),
+    variants,
+    ...(data.data.trims?.length
+      ? {
+          trims: data.data.trims.map((t) => ({
+            name: t.name,
+            price: t.price,
+            specKeys: Object.keys(t.specs).sort(),
+          })),
+        }
+      : {}),
+  };
+  const empty =
+    !expectation.title &&
+    !expectation.price &&
+    expectation.specKeys.length === 0 &&
+    expectation.variants.length === 0;
+  return empty ? undefined : expectation;
+}
+
+function compareExpectation(
+  expected: FixtureExpectation,
+  actual: FixtureExpectation | undefined
+): string[] {
+  if (!actual) return ["nothing was extracted"];
+  const failures: string[] = [];
+  if (actual.title !== expected.title) {
+    failures.push(`title: expected "${expected.title}", got "${actual.title}"`);
+  }
+  if (actual.price !== expected.price) {
+    failures.push(`price: expected "${expected.price}", got "${actual.price}"`);
+  }
+  const missingKeys = expected.specKeys.filter((k) => !actual.specKeys.includes(k));
+  if (missingKeys.length > 0) {
+    failures.push(`spec keys missing: ${missingKeys.join(", ")}`);
+  }
+  const missingVariants = expected.variants.filter((v) => !actual.variants.includes(v));
+  const extraVariants = actual.variants.filter((v) => !expected.variants.includes(v));
+  if (missingVariants.length > 0) {
+    failures.push(`variants missing: ${missingVariants.join(", ")}`);
+  }
+  if (extraVariants.length > 0) {
+    failures.push(`unexpected variants: ${extraVariants.join(", ")}`);
+  }
+  for (const trim of expected.trims ?? []) {
+    const found = actual.trims?.find((t) => t.name === trim.name);
+    if (!found) {
+      failures.push(`trim missing: ${trim.name}`);
+      continue;
+    }
+    if (found.price !== trim.price) {
+      failures.push(`trim ${trim.name} price: expected "${trim.price}", got "${found.price}"`);
+    }
+    const missingTrimKeys = trim.specKeys.filter((k) => !found.specKeys.includes(k));
+    if (missingTrimKeys.length > 0) {
+      failures.push(`trim ${trim.name} spec keys missing: ${missingTrimKeys.join(", ")}`);
+    }
+  }
+  return failures;
+}
+
+/**
+ * Capture a live page as a fixture for `site`: its HTML, its rendered DOM and
+ * what the site's current config extracts from each. Review expected.json
+ * before committing it; it records today's output, right or wrong.
+ *
+ * `name` defaults to the URL path, e.g. "new-cars-byd-seal".
+ */
+export async function recordFixture(
+  site: string,
+  url: string,
+  name?: string,
+  fixturesDir: string = DEFAULT_FIXTURES_DIR
+): Promise<{ dir: string; expected: FixtureExpected }> {
+  const config = requireSiteConfig(site);
+  const fixtureName = name ? slugify(name) : slugify(new URL(url).pathname) || "index";
+  const dir = path.join(fixturesDir, site, fixtureName);
+
+  const pages: Partial<Record<FixtureStrategy, string>> = {};
+  const html = await fetchWithRetry(url);
+  if (html) pages.cheerio = html;
+  const rendered = await snapshotPage(url, config);
+  if (rendered) pages.playwright = rendered;
+  if (!pages.cheerio && !pages.playwright) {
+    throw new Error(`Could not fetch or render ${url}`);
+  }
+
+  fs.mkdirSync(dir, { recursive: true });
+  for (const [strategy, body] of Object.entries(pages)) {
+    fs.writeFileSync(
+      path.join(dir, PAGE_FILES[strategy as FixtureStrategy]),
+      body,
+      "utf-8"
+    );
+  }
+
+  // Expectations come from scraping the saved files, exactly as tests will
+  const expected: FixtureExpected = { url, recordedAt: new Date().toISOString() };
+  const server = await serveDirectory(fixturesDir);
+  try {
+    for (const strategy of Object.keys(pages) as FixtureStrategy[]) {
+      const pageUrl = `${server.baseUrl}/${site}/${fixtureName}/${PAGE_FILES[strategy]}`;
+      const file = path.join(dir, PAGE_FILES[strategy]);
+      const expectation = toExpectation(
+        await scrapeFixture(strategy, pageUrl, file, site, config)
+      );
+      if (expectation) expected[strategy] = expectation;
+    }
+  } finally {
+    await server.close();
+  }
+
+  fs.writeFileSync(
+    path.join(dir, EXPECTED_FILE),
+    JSON.stringify(expected, null, 2) + "\n",
+    "utf-8"
+  );
+  return { dir, expected };
+}
+
+/**
+ * Scrape every fixture of `sites` (default: every config in config/sites/)
+ * from a local server and check it against expected.json.
+ *
+ * Every enabled site needs at least one fixture; disabled sites are checked
+ * only against the fixtures they have. A config that fails validation fails
+ * the run without its fixtures being scraped.
+ */
+export async function runFixtureTests(
+  sites?: string[],
+  fixturesDir: string = DEFAULT_FIXTURES_DIR
+): Promise<FixtureRun> {
+  const configs: Record<string, SiteConfig> = {};
+  const run: FixtureRun = {
+    checks: [],
+    passed: 0,
+    failed: 0,
+    sitesWithoutFixtures: [],
+    invalidConfigs: [],
+  };
+  for (const site of sites ?? listSites().map((s) => s.site)) {
+    const { config, errors } = readSiteConfig(site);
+    if (config) {
+      configs[site] = config;
+    } else if (errors.length > 0) {
+      run.invalidConfigs.push({ site, errors });
+    } else {
+      requireSiteConfig(site); // throws: unknown site
+    }
+  }
+
+  const server = await serveDirectory(fixturesDir);
+  try {
+    for (const site of Object.keys(configs)) {
+      const siteDir = path.join(fixturesDir, site);
+      const fixtures = listFixtures(site, fixturesDir);
+      if (fixtures.length === 0) {
+        if (!configs[site].disabled) run.sitesWithoutFixtures.push(site);
+        continue;
+      }
+
+      for (const fixture of fixtures) {
+        let expected: FixtureExpected;
+        try {
+          expected = JSON.parse(
+            fs.readFileSync(path.join(siteDir, fixture, EXPECTED_FILE), "utf-8")
+          );
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          for (const strategy of Object.keys(PAGE_FILES) as FixtureStrategy[]) {
+            run.checks.push({
+              site,
+              fixture,
+              strategy,
+              passed: false,
+              failures: [`unreadable ${EXPECTED_FILE}: ${message}`],
+            });
+          }
+          continue;
+        }
+
+        for (const strategy of Object.keys(PAGE_FILES) as FixtureStrategy[]) {
+          const expectation = expected[strategy];
+          if (!expectation) continue;
+
+          let failures: string[];
+          const file = path.join(siteDir, fixture, PAGE_FILES[strategy]);
+          if (!fs.existsSync(file)) {
+            failures = [`${PAGE_FILES[strategy]} is missing`];
+          } else {
+            const pageUrl = `${server.baseUrl}/${site}/${fixture}/${PAGE_FILES[strategy]}`;
+            const actual = toExpectation(
+              await scrapeFixture(strategy, pageUrl, file, site, configs[site])
+            );
+            failures = compareExpectation(expectation, actual);
+          }
+          run.checks.push({
+            site,
+            fixture,
+            strategy,
+            ...(expected.handWritten ? { handWritten: true } : {}),
+            passed: failures.length === 0,
+            failures,
+          });
+        }
+      }
+    }
+  } finally {
+    await server.close();
+  }
+
+  run.passed = run.checks.filter((c) => c.passed).length;
+  run.failed =
+    run.checks.length -
+    run.passed +
+    run.sitesWithoutFixtures.length +
+    run.invalidConfigs.length;
+  return run;
+}
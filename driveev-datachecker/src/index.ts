@@ -2,35 +2,119 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import { parseExcelFile } from "./excel-parser.js";
-import { scrapeEvData, closeBrowser } from "./scraper.js";
+import {
+  scrapeEvData,
+  closeBrowser,
+  loadAllConfigs,
+  listSites,
+  requireSiteConfig,
+} from "./scraper.js";
 import { compareEntry } from "./comparator.js";
 import { saveExcelReport, saveMarkdownReport } from "./report-writer.js";
+import { verifyWorkbook } from "./verifier.js";
+import { loadSynonyms, synonymGroups, addSynonym } from "./synonyms.js";
+import { recordFixture, runFixtureTests } from "./fixtures.js";
+import { upsertSiteConfig } from "./site-editor.js";
+import {
+  checkSiteHealth,
+  checkAllSitesHealth,
+  formatHealthTable,
+} from "./site-health.js";
 
 const server = new McpServer({
   name: "driveev-datachecker",
   version: "1.0.0",
 });
 
+const columnMappingSchema = z
+  .object({
+    brand: z.string().optional(),
+    model: z.string().optional(),
+    variant: z.string().optional(),
+    price: z.string().optional(),
+  })
+  .optional()
+  .describe(
+    "Sheet header to use for each required field, e.g. { brand: 'Make', variant: 'Trim' }"
+  );
+
+const allSheetsSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    "Parse every sheet that has the required columns; each entry carries its sheetName"
+  );
+
+const headerRowSchema = z
+  .number()
+  .int()
+  .min(1)
+  .optional()
+  .describe(
+    "1-based row holding the column names. Detected automatically if omitted (skips title banners and group rows)"
+  );
+
+const cacheModeSchema = z
+  .enum(["normal", "offline", "refresh", "off"])
+  .optional()
+  .describe(
+    "Page cache: normal (reuse pages younger than the TTL), offline (cached pages only, no network or browser), refresh (refetch and store), off. Defaults to config/cache.json"
+  );
+
+const cacheTtlHoursSchema = z
+  .number()
+  .min(0)
+  .optional()
+  .describe("How long a cached page stays fresh in normal mode (defaults to config/cache.json, else 24)");
+
 // Tool 1: Parse Excel
 server.tool(
   "parse_excel",
-  "Reads a local Excel file and returns structured EV data (brand, model, variant, price, specs). Column matching is case-insensitive.",
+  "Reads a local Excel, ODS, CSV or JSON (array of row objects) file and returns structured EV data (brand, model, variant, price, specs). Required columns are matched by explicit mapping, then case-insensitive name, then the aliases in config/column-aliases.json, then fuzzy matching. Reports which header was used for each required field, plus row-level warnings (empty required fields, duplicate rows, non-numeric or implausible values).",
   {
-    filePath: z.string().describe("Absolute path to the .xlsx file"),
+    filePath: z
+      .string()
+      .describe("Absolute path to the .xlsx, .ods, .csv or .json file"),
     sheetName: z
       .string()
       .optional()
       .describe("Sheet name (defaults to first sheet)"),
+    allSheets: allSheetsSchema,
+    headerRow: headerRowSchema,
+    columnMapping: columnMappingSchema,
+    rememberMapping: z
+      .boolean()
+      .optional()
+      .describe("Save the columnMapping headers as aliases for future runs"),
   },
-  async ({ filePath, sheetName }) => {
+  async ({
+    filePath,
+    sheetName,
+    allSheets,
+    headerRow,
+    columnMapping,
+    rememberMapping,
+  }) => {
     try {
-      const entries = parseExcelFile(filePath, sheetName);
+      const { entries, warnings, ...layout } = parseExcelFile(filePath, {
+        sheetName,
+        allSheets,
+        headerRow,
+        columnMapping,
+        rememberMapping,
+      });
       return {
         content: [
           {
             type: "text",
             text: JSON.stringify(
-              { totalRows: entries.length, entries },
+              {
+                totalRows: entries.length,
+                ...layout,
+                warningCount: warnings.length,
+                warnings,
+                entries,
+              },
               null,
               2
             ),
@@ -50,9 +134,12 @@ server.tool(
 // Tool 2: Scrape EV Data
 server.tool(
   "scrape_ev_data",
-  "Scrapes a URL for EV car data using a 3-strategy waterfall: API (fastest) → Cheerio (fast) → Playwright (most reliable). Includes retry logic, timeout handling, and raw text fallback.",
+  "Scrapes a URL for EV car data using a 3-strategy waterfall: API (fastest) → Cheerio (fast) → Playwright (most reliable). Includes retry logic, timeout handling, and raw text fallback. Pages are cached on disk by URL and strategy (fromCache/fetchedAt in the result); offline mode serves only from the cache. If no URL is given, it is built from the site's URL template using brand/model/variant.",
   {
-    url: z.string().describe("Full URL to scrape"),
+    url: z
+      .string()
+      .optional()
+      .describe("Full URL to scrape. Built from the site's urlTemplate if omitted"),
     siteKey: z
       .string()
       .optional()
@@ -67,17 +154,26 @@ server.tool(
       .string()
       .optional()
       .describe("Car model (e.g., 'Model 3'). Needed for API strategy."),
+    variant: z
+      .string()
+      .optional()
+      .describe("Car variant (e.g., 'Long Range AWD'). Used by URL templates."),
+    cacheMode: cacheModeSchema,
+    cacheTtlHours: cacheTtlHoursSchema,
   },
-  async ({ url, siteKey, brand, model }) => {
+  async ({ url, siteKey, brand, model, variant, cacheMode, cacheTtlHours }) => {
     try {
-      const data = await scrapeEvData(url, siteKey, brand, model);
+      const data = await scrapeEvData(url, siteKey, brand, model, variant, {
+        mode: cacheMode,
+        ttlHours: cacheTtlHours,
+      });
       return {
         content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
       };
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       return {
-        content: [{ type: "text", text: `Error scraping ${url}: ${message}` }],
+        content: [{ type: "text", text: `Error scraping ${url ?? siteKey}: ${message}` }],
         isError: true,
       };
     }
@@ -90,25 +186,61 @@ const scrapedResultSchema = z.object({
   price: z.string(),
   specs: z.record(z.string()),
   variants: z.array(z.string()),
+  trims: z
+    .array(
+      z.object({
+        name: z.string(),
+        price: z.string(),
+        specs: z.record(z.string()),
+      })
+    )
+    .optional()
+    .describe("Per-trim price and specs from scrape_ev_data, when the site lists trims"),
+  trustWeight: z
+    .number()
+    .optional()
+    .describe("Weight of this source in the consensus value (defaults to the site config's trustWeight, else 1)"),
 });
 
 const excelEntrySchema = z.object({
+  sheetName: z.string().optional(),
   rowNumber: z.number(),
   brand: z.string(),
   model: z.string(),
   variant: z.string(),
   price: z.string(),
+  priceCurrency: z.string().optional(),
   specs: z.record(z.string()),
+  specGroups: z
+    .record(z.object({ group: z.string(), field: z.string() }))
+    .optional(),
+  sourceUrls: z.record(z.string()).optional(),
 });
 
 const fieldComparisonSchema = z.object({
   excel: z.string(),
   scraped: z.record(z.string()),
-  status: z.enum(["match", "mismatch", "missing"]),
+  status: z.enum(["match", "within_tolerance", "mismatch", "missing"]),
   note: z.string().optional(),
+  rule: z
+    .object({
+      field: z.string(),
+      absolute: z.number().optional(),
+      percent: z.number().optional(),
+    })
+    .optional(),
+  consensus: z
+    .object({
+      value: z.string(),
+      sources: z.array(z.string()),
+      confidence: z.number(),
+    })
+    .optional(),
+  suggestion: z.string().optional(),
 });
 
 const comparisonResultSchema = z.object({
+  sheetName: z.string().optional(),
   rowNumber: z.number(),
   car: z.string(),
   fields: z.record(fieldComparisonSchema),
@@ -117,20 +249,50 @@ const comparisonResultSchema = z.object({
     foundOnSites: z.array(z.string()),
     notFoundOnSites: z.array(z.string()),
     status: z.enum(["match", "partial", "missing"]),
+    matches: z
+      .record(z.object({ variant: z.string(), score: z.number() }))
+      .optional(),
   }),
+  trimsUsed: z.record(z.string()).optional(),
+  coverage: z
+    .object({
+      fields: z.array(
+        z.object({ field: z.string(), scraped: z.record(z.string()) })
+      ),
+      variants: z.array(
+        z.object({ variant: z.string(), sites: z.record(z.string()) })
+      ),
+    })
+    .optional(),
 });
 
 // Tool 3: Compare Data
 server.tool(
   "compare_data",
-  "Compares one Excel entry against scraped data from one or more sites. Uses normalized exact matching (strips units, currency, commas).",
+  "Compares one Excel entry against scraped data from one or more sites. Parses values with units and converts them before comparing; per-field tolerances and ignored fields come from config/comparison-rules.json (status within_tolerance). Each field also gets a trust-weighted consensus value, a confidence score and, when the Excel value disagrees with a strong consensus, a suggested correction. Coverage gaps list known fields the sites have that the row leaves blank, and variants found on two or more sites that the sheet lacks.",
   {
     excelEntry: excelEntrySchema,
     scrapedResults: z.array(scrapedResultSchema),
+    carVariants: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Every variant of this car in the sheet, so site variants covered by other rows aren't reported as missing (defaults to the entry's own variant)"
+      ),
   },
-  async ({ excelEntry, scrapedResults }) => {
+  async ({ excelEntry, scrapedResults, carVariants }) => {
     try {
-      const result = compareEntry(excelEntry, scrapedResults);
+      const configs = loadAllConfigs();
+      const result = compareEntry(
+        excelEntry,
+        scrapedResults.map((r) => ({
+          ...r,
+          trustWeight: r.trustWeight ?? configs[r.source]?.trustWeight,
+        })),
+        undefined,
+        undefined,
+        carVariants
+      );
       return {
         content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
       };
@@ -149,23 +311,30 @@ server.tool(
 // Tool 4: Save Report
 server.tool(
   "save_report",
-  "Saves comparison results as annotated Excel file + Markdown summary report. Creates output directory if needed.",
+  "Saves comparison results as an annotated copy of the original file (same format: xlsx, ods, csv or json) + Markdown summary report. Creates output directory if needed.",
   {
     comparisons: z
       .array(comparisonResultSchema)
       .describe("Array of ComparisonResult objects from compare_data"),
     originalExcelPath: z
       .string()
-      .describe("Path to the original Excel file"),
+      .describe("Path to the original .xlsx, .ods, .csv or .json file"),
     outputDir: z.string().describe("Directory to save reports"),
     sites: z.array(z.string()).describe("List of site names checked"),
+    headerRows: z
+      .record(z.number().int().min(1))
+      .optional()
+      .describe(
+        "Header row per sheet name, as reported by parse_excel (defaults to row 1)"
+      ),
   },
-  async ({ comparisons, originalExcelPath, outputDir, sites }) => {
+  async ({ comparisons, originalExcelPath, outputDir, sites, headerRows }) => {
     try {
       const excelPath = saveExcelReport(
         comparisons,
         originalExcelPath,
-        outputDir
+        outputDir,
+        headerRows
       );
       const mdPath = saveMarkdownReport(
         comparisons,
@@ -197,6 +366,361 @@ server.tool(
   }
 );
 
+// Tool 5: Verify Workbook (end-to-end)
+server.tool(
+  "verify_workbook",
+  "Runs the full pipeline in one call: parses the workbook, scrapes every row on each site (bounded concurrency, one scrape per car per site; per-row source URL columns such as 'YallaMotor URL' are used instead of the site's URL template), compares, and saves the Excel + Markdown reports. Pages come from the on-disk cache when fresh, so a rerun after a rule change skips the network; cacheMode 'offline' never fetches. Returns only the summary and report paths.",
+  {
+    filePath: z
+      .string()
+      .describe("Absolute path to the .xlsx, .ods, .csv or .json file"),
+    sites: z
+      .array(z.string())
+      .min(1)
+      .describe("Site config keys to check (e.g., ['yallamotor', 'dubicars'])"),
+    outputDir: z.string().describe("Directory to save reports"),
+    sheetName: z
+      .string()
+      .optional()
+      .describe("Sheet name (defaults to first sheet)"),
+    allSheets: allSheetsSchema,
+    headerRow: headerRowSchema,
+    columnMapping: columnMappingSchema,
+    concurrency: z
+      .number()
+      .int()
+      .min(1)
+      .max(10)
+      .optional()
+      .describe("Maximum scrapes in flight at once (default 3)"),
+    cacheMode: cacheModeSchema,
+    cacheTtlHours: cacheTtlHoursSchema,
+  },
+  async ({
+    filePath,
+    sites,
+    outputDir,
+    sheetName,
+    allSheets,
+    headerRow,
+    columnMapping,
+    concurrency,
+    cacheMode,
+    cacheTtlHours,
+  }) => {
+    try {
+      const summary = await verifyWorkbook({
+        filePath,
+        sites,
+        outputDir,
+        sheetName,
+        allSheets,
+        headerRow,
+        columnMapping,
+        concurrency,
+        cache: { mode: cacheMode, ttlHours: cacheTtlHours },
+      });
+      return {
+        content: [{ type: "text", text: JSON.stringify(summary, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [
+          { type: "text", text: `Error verifying workbook: ${message}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+const synonymKindSchema = z
+  .enum(["fields", "values"])
+  .describe(
+    "fields: spec label aliases (config/field-aliases.json); values: spec value synonyms (config/value-synonyms.json)"
+  );
+
+// Tool 6: List Synonyms
+server.tool(
+  "list_synonyms",
+  "Lists the field alias or value synonym groups used when comparing specs. With a site, returns the groups in effect for that site (shared spellings plus the site's own overrides); without one, returns the whole dictionary including every site's overrides.",
+  {
+    kind: synonymKindSchema,
+    site: z
+      .string()
+      .optional()
+      .describe("Site config key, e.g. 'yallamotor'"),
+  },
+  async ({ kind, site }) => {
+    try {
+      const result = site
+        ? { kind, site, groups: synonymGroups(kind, site) }
+        : { kind, ...loadSynonyms(kind) };
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [
+          { type: "text", text: `Error listing synonyms: ${message}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Tool 7: Add Synonym
+server.tool(
+  "add_synonym",
+  "Adds a spelling to a field alias or value synonym group and saves it to config/. Creates the group if the canonical term is new. With a site, the alias only applies to that site. Rejected if the alias already belongs to a different group.",
+  {
+    kind: synonymKindSchema,
+    canonical: z
+      .string()
+      .describe("Canonical term of the group, e.g. 'horsepower' or 'rwd'"),
+    alias: z
+      .string()
+      .describe("New spelling, e.g. 'electric_motor_output' or 'traction: rear'"),
+    site: z
+      .string()
+      .optional()
+      .describe("Site config key to limit the alias to, e.g. 'drivearabia'"),
+  },
+  async ({ kind, canonical, alias, site }) => {
+    try {
+      const result = addSynonym(kind, canonical, alias, site);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ kind, ...(site ? { site } : {}), ...result }, null, 2),
+          },
+        ],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [
+          { type: "text", text: `Error adding synonym: ${message}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Tool 8: Record Fixture
+server.tool(
+  "record_fixture",
+  "Captures a live page as a test fixture for a site config: the fetched HTML (cheerio), the rendered DOM without scripts (Playwright) and what each strategy currently extracts (expected.json), under fixtures/<site>/<name>/. Review expected.json before committing it.",
+  {
+    site: z.string().describe("Site config key (e.g., 'dubicars')"),
+    url: z.string().describe("Live page to capture"),
+    name: z
+      .string()
+      .optional()
+      .describe("Fixture name (defaults to the URL path, e.g. 'new-cars-byd-seal')"),
+  },
+  async ({ site, url, name }) => {
+    try {
+      const result = await recordFixture(site, url, name);
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [
+          { type: "text", text: `Error recording fixture: ${message}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Tool 9: Run Fixture Tests
+server.tool(
+  "run_fixture_tests",
+  "Scrapes every recorded fixture from a local server with the current site configs and checks title, price, spec keys and variants against expected.json, so a broken selector shows up before a live run. Enabled sites without a fixture and configs that fail validation are listed separately and count as failures.",
+  {
+    sites: z
+      .array(z.string())
+      .optional()
+      .describe("Site config keys to test (defaults to every site)"),
+  },
+  async ({ sites }) => {
+    try {
+      const run = await runFixtureTests(sites);
+      return {
+        content: [{ type: "text", text: JSON.stringify(run, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [
+          { type: "text", text: `Error running fixture tests: ${message}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Tool 10: Check Site Health
+server.tool(
+  "check_site_health",
+  "Audits a site config's selectors against a sample page: how many elements each selector in `selectors` (and `trims`) matches, sample text, and pass/fail. Uses the given URL (through the page cache) or else the site's recorded fixture. Without a site, checks every config and returns a health table showing which sites need attention.",
+  {
+    site: z
+      .string()
+      .optional()
+      .describe("Site config key to check (defaults to every site)"),
+    url: z
+      .string()
+      .optional()
+      .describe("Sample page for a single site; without it the site's first fixture is used"),
+    urls: z
+      .record(z.string())
+      .optional()
+      .describe("Sample page per site key when checking every site"),
+    render: z
+      .boolean()
+      .optional()
+      .describe("Render the page with Playwright before auditing (defaults to true for sites that prefer Playwright)"),
+    cacheMode: cacheModeSchema,
+  },
+  async ({ site, url, urls, render, cacheMode }) => {
+    try {
+      const options = { render, cache: { mode: cacheMode } };
+      const result = site
+        ? await checkSiteHealth(site, { ...options, url })
+        : await (async () => {
+            const sites = await checkAllSitesHealth(urls, options);
+            return { table: formatHealthTable(sites), sites };
+          })();
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [
+          { type: "text", text: `Error checking site health: ${message}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Tool 11: List Sites
+server.tool(
+  "list_sites",
+  "Lists every site config in config/sites/ with its name, base URL, preferred strategy and whether it is enabled, with the reason for disabled sites. Configs that fail validation are listed as disabled with their errors.",
+  {},
+  async () => {
+    try {
+      return {
+        content: [
+          { type: "text", text: JSON.stringify(listSites(), null, 2) },
+        ],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: `Error listing sites: ${message}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Tool 12: Get Site Config
+server.tool(
+  "get_site_config",
+  "Returns one site config (selectors, URL template, search, API mapping, trims). Fails with the exact path of every problem if the config doesn't pass validation.",
+  {
+    site: z.string().describe("Site config key (e.g., 'yallamotor')"),
+  },
+  async ({ site }) => {
+    try {
+      const config = requireSiteConfig(site);
+      return {
+        content: [{ type: "text", text: JSON.stringify(config, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [
+          { type: "text", text: `Error loading site config: ${message}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Tool 13: Upsert Site Config
+server.tool(
+  "upsert_site_config",
+  "Creates or edits a site config in config/sites/. Validates the definition, optionally scrapes a sample URL with it to show what it extracts, and only then writes the file; the next scrape uses it without a restart. Can also disable a site with a reason (or re-enable it) without resending the whole config.",
+  {
+    site: z
+      .string()
+      .describe("Site config key, used as the file name (e.g., 'oem-byd')"),
+    config: z
+      .record(z.unknown())
+      .optional()
+      .describe(
+        "Full site definition, same shape as config/sites/*.json (name, baseUrl, urlTemplate, selectors, ...). Omit to edit the existing config"
+      ),
+    disabled: z
+      .boolean()
+      .optional()
+      .describe("true disables the site (needs disabledReason), false re-enables it"),
+    disabledReason: z
+      .string()
+      .optional()
+      .describe("Why the site is disabled, e.g. 'Domain redirects to spam'"),
+    sampleUrl: z
+      .string()
+      .optional()
+      .describe("Page to scrape with the new config before saving (dry run)"),
+    sampleBrand: z
+      .string()
+      .optional()
+      .describe("Brand for the sample, needed to try the API strategy"),
+    sampleModel: z
+      .string()
+      .optional()
+      .describe("Model for the sample, needed to try the API strategy"),
+    dryRun: z
+      .boolean()
+      .optional()
+      .describe("Validate and scrape the sample without writing the file"),
+  },
+  async (options) => {
+    try {
+      const result = await upsertSiteConfig(options);
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [
+          { type: "text", text: `Error saving site config: ${message}` },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
 // Start server with graceful shutdown
 async function main() {
   const transport = new StdioServerTransport();
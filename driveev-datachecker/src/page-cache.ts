@@ -0,0 +1,163 @@
+/**
+ * On-disk cache of fetched pages, one JSON file per (strategy, URL): the HTML
+ * for cheerio, the response body for the API, and the rendered DOM for
+ * Playwright. Reruns within the TTL skip the network and the browser, and
+ * always extract with the current selectors; offline mode serves only from
+ * the cache.
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * normal: use a cached copy younger than the TTL, otherwise fetch and store.
+ * offline: only cached copies, whatever their age; never fetch.
+ * refresh: always fetch, then store.
+ * off: always fetch, store nothing.
+ */
+export type CacheMode = "normal" | "offline" | "refresh" | "off";
+
+export interface CacheSettings {
+  mode: CacheMode;
+  ttlHours: number;
+  // Relative paths are resolved from the package root
+  dir: string;
+}
+
+export interface CachedPage {
+  url: string;
+  strategy: string;
+  fetchedAt: string; // ISO timestamp
+  body: string;
+}
+
+const SETTINGS_PATH = path.join(__dirname, "..", "config", "cache.json");
+const CACHE_MODES: CacheMode[] = ["normal", "offline", "refresh", "off"];
+
+const DEFAULT_SETTINGS: CacheSettings = {
+  mode: "normal",
+  ttlHours: 24,
+  dir: "cache",
+};
+
+/**
+ * Load cache settings from config/cache.json, with `overrides` (e.g. a mode
+ * passed to a tool) on top. A missing or broken file means the defaults:
+ * normal mode, 24-hour TTL, cache/ in the package root.
+ */
+export function loadCacheSettings(
+  overrides: Partial<CacheSettings> = {}
+): CacheSettings {
+  const settings = { ...DEFAULT_SETTINGS };
+  if (fs.existsSync(SETTINGS_PATH)) {
+    try {
+      const stored = JSON.parse(fs.readFileSync(SETTINGS_PATH, "utf-8"));
+      if (CACHE_MODES.includes(stored.mode)) settings.mode = stored.mode;
+      if (typeof stored.ttlHours === "number" && stored.ttlHours >= 0) {
+        settings.ttlHours = stored.ttlHours;
+      }
+      if (typeof stored.dir === "string" && stored.dir) settings.dir = stored.dir;
+    } catch (err) {
+      console.error(`Failed to parse cache settings "${SETTINGS_PATH}":`, err);
+    }
+  }
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) Object.assign(settings, { [key]: value });
+  }
+  return settings;
+}
+
+function entryPath(settings: CacheSettings, strategy: string, url: string): string {
+  const dir = path.resolve(path.join(__dirname, ".."), settings.dir);
+  const hash = createHash("sha1").update(`${strategy} ${url}`).digest("hex");
+  return path.join(dir, `${hash}.json`);
+}
+
+function readEntry(
+  settings: CacheSettings,
+  strategy: string,
+  url: string
+): CachedPage | null {
+  const file = entryPath(settings, strategy, url);
+  if (!fs.existsSync(file)) return null;
+  try {
+    const entry: CachedPage = JSON.parse(fs.readFileSync(file, "utf-8"));
+    if (typeof entry.body !== "string" || isNaN(Date.parse(entry.fetchedAt))) {
+      return null;
+    }
+    return entry;
+  } catch (err) {
+    console.error(`[cache] Ignoring unreadable entry "${file}":`, err);
+    return null;
+  }
+}
+
+function writeEntry(settings: CacheSettings, entry: CachedPage): void {
+  const file = entryPath(settings, entry.strategy, entry.url);
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(entry), "utf-8");
+  } catch (err) {
+    console.error(`[cache] Failed to write "${file}":`, err);
+  }
+}
+
+/**
+ * The cached copy the mode allows using instead of fetching: any copy
+ * offline, one younger than the TTL in normal mode, none otherwise.
+ */
+function usableEntry(
+  settings: CacheSettings,
+  strategy: string,
+  url: string
+): CachedPage | null {
+  if (settings.mode !== "normal" && settings.mode !== "offline") return null;
+  const entry = readEntry(settings, strategy, url);
+  if (!entry) return null;
+  const ageMs = Date.now() - Date.parse(entry.fetchedAt);
+  return settings.mode === "offline" || ageMs < settings.ttlHours * 3_600_000
+    ? entry
+    : null;
+}
+
+/** Whether cachedFetch would serve `url` for `strategy` without fetching. */
+export function isCached(url: string, strategy: string, settings: CacheSettings): boolean {
+  return usableEntry(settings, strategy, url) !== null;
+}
+
+/**
+ * Fetch a page body through the cache. `fetcher` is only called when the
+ * mode allows it and there is no usable cached copy; an empty body counts as
+ * a failed fetch and is not stored.
+ *
+ * Returns null when nothing could be fetched or, offline, nothing is cached.
+ */
+export async function cachedFetch(
+  url: string,
+  strategy: string,
+  settings: CacheSettings,
+  fetcher: () => Promise<string>
+): Promise<{ body: string; fromCache: boolean; fetchedAt: string } | null> {
+  const entry = usableEntry(settings, strategy, url);
+  if (entry) {
+    console.error(`[cache] Using ${strategy} copy of ${url} from ${entry.fetchedAt}`);
+    return { body: entry.body, fromCache: true, fetchedAt: entry.fetchedAt };
+  }
+  if (settings.mode === "offline") {
+    console.error(`[cache] Offline: no cached ${strategy} copy of ${url}`);
+    return null;
+  }
+
+  const body = await fetcher();
+  if (!body) return null;
+  const fetchedAt = new Date().toISOString();
+  if (settings.mode !== "off") {
+    writeEntry(settings, { url, strategy, fetchedAt, body });
+  }
+  return { body, fromCache: false, fetchedAt };
+}
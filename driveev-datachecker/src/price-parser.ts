@@ -0,0 +1,218 @@
+/**
+ * Price strings as sites publish them: "AED 149,900", "Starting from AED
+ * 149,900 (incl. VAT)", "AED 1,999/month", "AED 149,900 - 179,900".
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export type PriceKind = "list" | "starting_from" | "monthly" | "unknown";
+
+export interface ParsedPrice {
+  raw: string;
+  kind: PriceKind;
+  // One amount, or the low and high end of a range
+  amounts: number[];
+  currency?: string;
+  // Undefined when the string doesn't mention VAT
+  vatIncluded?: boolean;
+}
+
+const PRICE_NUMBER = String.raw`\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?`;
+const CURRENCY = String.raw`AED|USD|SAR|QAR|OMR|BHD|KWD|EUR|GBP|CHF|INR|CNY|JPY|CAD|AUD|Dhs?\.?|SR|QR|\$|€|£`;
+
+const CURRENCY_CODES: Record<string, string> = {
+  aed: "AED",
+  dh: "AED",
+  dhs: "AED",
+  usd: "USD",
+  $: "USD",
+  sar: "SAR",
+  sr: "SAR",
+  qar: "QAR",
+  qr: "QAR",
+  omr: "OMR",
+  bhd: "BHD",
+  kwd: "KWD",
+  eur: "EUR",
+  "€": "EUR",
+  gbp: "GBP",
+  "£": "GBP",
+  chf: "CHF",
+  inr: "INR",
+  cny: "CNY",
+  jpy: "JPY",
+  cad: "CAD",
+  aud: "AUD",
+};
+
+// Text right after an amount that makes it an instalment or rate
+const PER_PERIOD =
+  /^\s*(?:\/\s*|per\s+|a\s+)(?:month|mo|mth)\b|^\s*(?:monthly|p\.?m\.?)(?![a-z])/i;
+// Text right after an amount that makes it something other than money
+const NOT_MONEY = /^\s*(?:%|years?\b|yrs?\b|km\b|kms\b|months?\b|kwh\b|kw\b)/i;
+
+const MONTHLY = /\/\s*(?:month|mo|mth)\b|\bper\s+month\b|\bmonthly\b|\bemi\b/i;
+const STARTING_FROM = /\b(?:from|starting|starts|onwards)\b|\+\s*$/i;
+const VAT_INCLUDED = /\b(?:incl(?:uding|usive(?:\s+of)?|\.)?|inc\.?|with)\s*(?:5\s*%\s*)?vat\b/i;
+const VAT_EXCLUDED =
+  /\b(?:excl(?:uding|usive(?:\s+of)?|\.)?|ex\.?|plus|before|without)\s*(?:5\s*%\s*)?vat\b|\+\s*(?:5\s*%\s*)?vat\b/i;
+
+function currencyCode(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  return CURRENCY_CODES[text.toLowerCase().replace(/\./g, "")];
+}
+
+/**
+ * First currency named in a text without amounts, e.g. a column header:
+ * "Starting Price (SAR)" → "SAR".
+ */
+export function detectCurrency(text: string): string | undefined {
+  const match = text.match(
+    new RegExp(String.raw`(?:^|[^a-z])(${CURRENCY})(?![a-z])`, "i")
+  );
+  return currencyCode(match?.[1]);
+}
+
+export interface ExchangeRates {
+  asOf: string;
+  base: string;
+  // Value of one unit of each currency in the base currency
+  rates: Record<string, number>;
+}
+
+const RATES_PATH = path.join(__dirname, "..", "config", "exchange-rates.json");
+
+/**
+ * Load the exchange-rate table from config/exchange-rates.json. A missing or
+ * broken file leaves only the AED base, so foreign prices are not compared.
+ */
+export function loadExchangeRates(): ExchangeRates {
+  const fallback: ExchangeRates = { asOf: "", base: "AED", rates: { AED: 1 } };
+  if (!fs.existsSync(RATES_PATH)) return fallback;
+  try {
+    const stored = JSON.parse(fs.readFileSync(RATES_PATH, "utf-8"));
+    const rates: Record<string, number> = {};
+    for (const [code, rate] of Object.entries(stored.rates ?? {})) {
+      if (typeof rate === "number" && rate > 0) rates[code.toUpperCase()] = rate;
+    }
+    const base = String(stored.base ?? fallback.base).toUpperCase();
+    return { asOf: String(stored.asOf ?? ""), base, rates: { [base]: 1, ...rates } };
+  } catch (err) {
+    console.error(`Failed to parse exchange rates "${RATES_PATH}":`, err);
+    return fallback;
+  }
+}
+
+/**
+ * Convert an amount between currencies through the table's base currency.
+ * Returns null when either currency has no rate.
+ */
+export function convertCurrency(
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRates
+): number | null {
+  if (from === to) return amount;
+  const fromRate = rates.rates[from];
+  const toRate = rates.rates[to];
+  if (!fromRate || !toRate) return null;
+  return (amount * fromRate) / toRate;
+}
+
+/**
+ * Classify a price string and pull out its comparable amounts.
+ *
+ * Amounts next to a currency code win over bare numbers; monthly instalments,
+ * percentages, warranty years and model years ("2025 Model 3") are never
+ * taken as the price. A string that only holds an instalment is "monthly"
+ * and its amounts are the instalments.
+ */
+export function parsePrice(raw: string): ParsedPrice {
+  const text = raw.replace(/\s+/g, " ").trim();
+  const result: ParsedPrice = { raw, kind: "unknown", amounts: [] };
+
+  if (VAT_INCLUDED.test(text)) result.vatIncluded = true;
+  else if (VAT_EXCLUDED.test(text)) result.vatIncluded = false;
+
+  const pattern = new RegExp(
+    String.raw`(?:(${CURRENCY})\s*)?(${PRICE_NUMBER})(?:\s*(${CURRENCY})(?![a-z]))?`,
+    "gi"
+  );
+
+  const found: Array<{
+    value: number;
+    currency?: string;
+    monthly: boolean;
+  }> = [];
+  let previousEnd = -1;
+  let previousCurrency: string | undefined;
+  for (const match of text.matchAll(pattern)) {
+    const end = match.index! + match[0].length;
+    const after = text.slice(end);
+    const between = previousEnd >= 0 ? text.slice(previousEnd, match.index!) : "";
+    const value = parseFloat(match[2].replace(/,/g, ""));
+    let currency = currencyCode(match[1] ?? match[3]);
+    // "AED 149,900 - 179,900": the upper end shares the lower end's currency
+    if (!currency && previousCurrency && /^\s*(?:-|–|—|to)\s*$/i.test(between)) {
+      currency = previousCurrency;
+    }
+    previousEnd = end;
+    previousCurrency = currency;
+
+    if (isNaN(value) || value <= 0) continue;
+    if (!currency) {
+      if (NOT_MONEY.test(after)) continue;
+      if (/^(?:19|20)\d{2}$/.test(match[2])) continue; // a model year
+    }
+    found.push({ value, currency, monthly: PER_PERIOD.test(after) });
+  }
+
+  const priced = found.filter((f) => f.currency);
+  const candidates = priced.length > 0 ? priced : found;
+  const lumpSum = candidates.filter((f) => !f.monthly);
+  const chosen = lumpSum.length > 0 ? lumpSum : candidates;
+  if (chosen.length === 0) return result;
+
+  result.currency = chosen.find((f) => f.currency)?.currency;
+  const values = chosen.map((f) => f.value);
+  result.amounts =
+    values.length > 1 ? [Math.min(...values), Math.max(...values)] : values;
+
+  if (lumpSum.length === 0 && (chosen.some((f) => f.monthly) || MONTHLY.test(text))) {
+    result.kind = "monthly";
+  } else if (STARTING_FROM.test(text)) {
+    result.kind = "starting_from";
+  } else {
+    result.kind = "list";
+  }
+  return result;
+}
+
+/** Whether a parsed price can be compared against a car's list price. */
+export function isComparablePrice(price: ParsedPrice): boolean {
+  return price.kind === "list" || price.kind === "starting_from";
+}
+
+/** Short description for report notes, e.g. "starting from AED 149,900, incl. VAT". */
+export function describePrice(price: ParsedPrice): string {
+  const labels: Record<PriceKind, string> = {
+    list: "list price",
+    starting_from: "starting from",
+    monthly: "monthly instalment",
+    unknown: "unrecognised price",
+  };
+  const parts = [labels[price.kind]];
+  if (price.amounts.length > 0) {
+    const amounts = price.amounts.map((a) => a.toLocaleString()).join(" - ");
+    parts[0] += ` ${price.currency ? `${price.currency} ` : ""}${amounts}`;
+  }
+  if (price.vatIncluded === true) parts.push("incl. VAT");
+  if (price.vatIncluded === false) parts.push("excl. VAT");
+  return parts.join(", ");
+}
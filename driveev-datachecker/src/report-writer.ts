@@ -1,41 +1,58 @@
 import XLSX from "xlsx";
 import * as fs from "fs";
 import * as path from "path";
-import type { ComparisonResult } from "./comparator.js";
+import type { ComparisonResult, Consensus } from "./comparator.js";
+import { readWorkbook, detectInputFormat } from "./excel-parser.js";
 
-/**
- * Save an annotated Excel report.
- *
- * Reads the original Excel file, appends verification columns for each
- * compared field ({field}_Status, {field}_Scraped, {field}_Note) plus a
- * Variant_Status column, and writes the result to outputDir.
- */
-export function saveExcelReport(
-  comparisons: ComparisonResult[],
-  originalExcelPath: string,
-  outputDir: string
-): string {
-  // Ensure the output directory exists
-  fs.mkdirSync(outputDir, { recursive: true });
+/** "82 kWh (confidence 0.67: yallamotor, dubicars)" */
+function formatConsensus(consensus: Consensus | undefined): string {
+  if (!consensus) return "";
+  return `${consensus.value} (confidence ${consensus.confidence}: ${consensus.sources.join(", ")})`;
+}
 
-  // Read the original workbook
-  const workbook = XLSX.readFile(originalExcelPath);
-  const sheetName = workbook.SheetNames[0];
-  const sheet = workbook.Sheets[sheetName];
+/** "yallamotor: Standard Range RWD (1)" per site, joined with "; " */
+function formatVariantMatches(comparison: ComparisonResult): string {
+  return Object.entries(comparison.variantCheck.matches ?? {})
+    .map(([site, m]) => `${site}: ${m.variant} (${m.score})`)
+    .join("; ");
+}
 
-  // Parse sheet as raw row arrays (header = 1 gives arrays of arrays)
-  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
-    header: 1,
-  });
+/** "warranty (yallamotor: 5 years); seats (dubicars: 5)" */
+function formatMissingFields(comparison: ComparisonResult): string {
+  return (comparison.coverage?.fields ?? [])
+    .map(({ field, scraped }) => {
+      const values = Object.entries(scraped)
+        .map(([site, value]) => `${site}: ${value}`)
+        .join(", ");
+      return `${field} (${values})`;
+    })
+    .join("; ");
+}
 
-  if (rows.length === 0) {
-    // Nothing to annotate – write an empty workbook
-    const outputPath = path.join(outputDir, "ev-data-verified.xlsx");
-    XLSX.writeFile(workbook, outputPath);
-    return outputPath;
-  }
+/** "Performance (yallamotor, dubicars)" per variant, joined with "; " */
+function formatMissingVariants(comparison: ComparisonResult): string {
+  return (comparison.coverage?.variants ?? [])
+    .map((gap) => `${gap.variant} (${Object.keys(gap.sites).join(", ")})`)
+    .join("; ");
+}
 
-  const headers = (rows[0] as unknown[]).map((h) => String(h ?? ""));
+/**
+ * Append verification columns to one worksheet: {field}_Status,
+ * {field}_Scraped, {field}_Note, {field}_Consensus and {field}_Suggested per
+ * compared field plus Variant_Status, Variant_Match, Missing_Fields and
+ * Missing_Variants (coverage gaps), to the right of the existing data. Annotations are written at each
+ * comparison's `rowNumber`, with the new column names on `headerRow`, so
+ * title banners and grouped header rows above the data are left untouched.
+ */
+function annotateSheet(
+  sheet: XLSX.WorkSheet,
+  comparisons: ComparisonResult[],
+  headerRow: number
+): void {
+  // New columns start right after the last used column
+  const firstNewColumn = sheet["!ref"]
+    ? XLSX.utils.decode_range(sheet["!ref"]).e.c + 1
+    : 0;
 
   // Collect all unique field names across every comparison
   const fieldNamesSet = new Set<string>();
@@ -47,61 +64,107 @@ export function saveExcelReport(
   const fieldNames = Array.from(fieldNamesSet);
 
   // Append new header columns
+  const headers: string[] = [];
   for (const field of fieldNames) {
     headers.push(`${field}_Status`);
     headers.push(`${field}_Scraped`);
     headers.push(`${field}_Note`);
+    headers.push(`${field}_Consensus`);
+    headers.push(`${field}_Suggested`);
   }
   headers.push("Variant_Status");
+  headers.push("Variant_Match");
+  headers.push("Missing_Fields");
+  headers.push("Missing_Variants");
 
-  // Replace the header row
-  rows[0] = headers;
+  XLSX.utils.sheet_add_aoa(sheet, [headers], {
+    origin: { r: headerRow - 1, c: firstNewColumn },
+  });
 
-  // Build a lookup from rowNumber to comparison
-  const comparisonByRow = new Map<number, ComparisonResult>();
+  // Annotate each compared row (rowNumber is the 1-based spreadsheet row)
   for (const comparison of comparisons) {
-    comparisonByRow.set(comparison.rowNumber, comparison);
-  }
-
-  // Annotate each data row
-  for (let i = 1; i < rows.length; i++) {
-    const row = rows[i] as unknown[];
-    // rowNumber is 1-indexed with row 1 being header, so data row index i
-    // corresponds to rowNumber = i + 1
-    const rowNumber = i + 1;
-    const comparison = comparisonByRow.get(rowNumber);
+    const cells: string[] = [];
 
     for (const field of fieldNames) {
-      if (comparison && comparison.fields[field]) {
-        const fc = comparison.fields[field];
-        row.push(fc.status);
+      const fc = comparison.fields[field];
+      if (fc) {
+        cells.push(fc.status);
         // Concatenate scraped values from all sources
         const scrapedSummary = Object.entries(fc.scraped)
           .map(([source, value]) => `${source}: ${value}`)
           .join("; ");
-        row.push(scrapedSummary);
-        row.push(fc.note ?? "");
+        cells.push(scrapedSummary);
+        cells.push(fc.note ?? "");
+        cells.push(formatConsensus(fc.consensus));
+        cells.push(fc.suggestion ?? "");
       } else {
-        row.push("");
-        row.push("");
-        row.push("");
+        cells.push("", "", "", "", "");
       }
     }
 
-    // Variant status
-    if (comparison) {
-      row.push(comparison.variantCheck.status);
-    } else {
-      row.push("");
+    // Variant status and the closest site variant per site
+    cells.push(comparison.variantCheck.status);
+    cells.push(formatVariantMatches(comparison));
+    cells.push(formatMissingFields(comparison));
+    cells.push(formatMissingVariants(comparison));
+
+    XLSX.utils.sheet_add_aoa(sheet, [cells], {
+      origin: { r: comparison.rowNumber - 1, c: firstNewColumn },
+    });
+  }
+}
+
+/**
+ * Save an annotated Excel report.
+ *
+ * Reads the original file, annotates every sheet that has comparisons
+ * (results without a sheetName go to the first sheet), and writes the result
+ * to outputDir in the same format as the original: ev-data-verified.xlsx,
+ * .ods, .csv, or .json (an array of row objects with the annotation columns
+ * added). `headerRows` gives the header row per sheet name; a single number
+ * applies to every sheet.
+ */
+export function saveExcelReport(
+  comparisons: ComparisonResult[],
+  originalExcelPath: string,
+  outputDir: string,
+  headerRows: number | Record<string, number> = 1
+): string {
+  // Ensure the output directory exists
+  fs.mkdirSync(outputDir, { recursive: true });
+
+  // Read the original workbook
+  const workbook = readWorkbook(originalExcelPath);
+  const format = detectInputFormat(originalExcelPath);
+  const outputPath = path.join(outputDir, `ev-data-verified.${format}`);
+
+  // Group comparisons by the sheet they came from
+  const bySheet = new Map<string, ComparisonResult[]>();
+  for (const comparison of comparisons) {
+    const sheetName = comparison.sheetName ?? workbook.SheetNames[0];
+    if (!workbook.Sheets[sheetName]) {
+      throw new Error(
+        `Sheet "${sheetName}" (row ${comparison.rowNumber}) not found in ${originalExcelPath}`
+      );
     }
+    const list = bySheet.get(sheetName) ?? [];
+    list.push(comparison);
+    bySheet.set(sheetName, list);
   }
 
-  // Create a new worksheet from the annotated rows
-  const newSheet = XLSX.utils.aoa_to_sheet(rows);
-  workbook.Sheets[sheetName] = newSheet;
+  for (const [sheetName, sheetComparisons] of bySheet) {
+    const headerRow =
+      typeof headerRows === "number" ? headerRows : headerRows[sheetName] ?? 1;
+    annotateSheet(workbook.Sheets[sheetName], sheetComparisons, headerRow);
+  }
 
-  const outputPath = path.join(outputDir, "ev-data-verified.xlsx");
-  XLSX.writeFile(workbook, outputPath);
+  if (format === "json") {
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows = XLSX.utils.sheet_to_json(sheet, { defval: "" });
+    fs.writeFileSync(outputPath, JSON.stringify(rows, null, 2), "utf-8");
+  } else {
+    XLSX.writeFile(workbook, outputPath, { bookType: format });
+  }
   return outputPath;
 }
 
@@ -113,6 +176,8 @@ export function saveExcelReport(
  * - Summary table of match / mismatch / missing counts
  * - Discrepancies section listing only cars that have issues
  * - Variant check notes for non-matching variants
+ * - Coverage gaps: fields the sites list that rows leave blank, and variants
+ *   on several sites that the sheet lacks
  */
 export function saveMarkdownReport(
   comparisons: ComparisonResult[],
@@ -139,6 +204,7 @@ export function saveMarkdownReport(
 
   // --- Summary counts ---
   let matchCount = 0;
+  let toleranceCount = 0;
   let mismatchCount = 0;
   let missingCount = 0;
 
@@ -148,6 +214,9 @@ export function saveMarkdownReport(
         case "match":
           matchCount++;
           break;
+        case "within_tolerance":
+          toleranceCount++;
+          break;
         case "mismatch":
           mismatchCount++;
           break;
@@ -163,15 +232,16 @@ export function saveMarkdownReport(
   lines.push("| Metric | Count |");
   lines.push("| --- | --- |");
   lines.push(`| Match | ${matchCount} |`);
+  lines.push(`| Within tolerance | ${toleranceCount} |`);
   lines.push(`| Mismatch | ${mismatchCount} |`);
   lines.push(`| Missing | ${missingCount} |`);
-  lines.push(`| **Total fields checked** | **${matchCount + mismatchCount + missingCount}** |`);
+  lines.push(`| **Total fields checked** | **${matchCount + toleranceCount + mismatchCount + missingCount}** |`);
   lines.push("");
 
   // --- Discrepancies ---
   const carsWithIssues = comparisons.filter((c) => {
     const hasFieldIssue = Object.values(c.fields).some(
-      (fc) => fc.status !== "match"
+      (fc) => fc.status !== "match" && fc.status !== "within_tolerance"
     );
     const hasVariantIssue = c.variantCheck.status !== "match";
     return hasFieldIssue || hasVariantIssue;
@@ -189,16 +259,32 @@ export function saveMarkdownReport(
     );
     lines.push("");
 
+    // Only name the sheet when the results span more than one
+    const multiSheet =
+      new Set(comparisons.map((c) => c.sheetName ?? "")).size > 1;
+
     for (const comparison of carsWithIssues) {
-      lines.push(`### ${comparison.car} (Row ${comparison.rowNumber})`);
+      const location =
+        multiSheet && comparison.sheetName
+          ? `${comparison.sheetName}, Row ${comparison.rowNumber}`
+          : `Row ${comparison.rowNumber}`;
+      lines.push(`### ${comparison.car} (${location})`);
       lines.push("");
+      if (comparison.trimsUsed) {
+        const trims = Object.entries(comparison.trimsUsed)
+          .map(([site, trim]) => `${site}: ${trim}`)
+          .join(", ");
+        lines.push(`**Trim compared:** ${trims}`);
+        lines.push("");
+      }
 
-      // Build a table: Field | Excel | {site1} | {site2} | ... | Status
+      // Build a table: Field | Excel | {site1} | {site2} | ... | Status |
+      // Consensus | Suggested
       const tableHeaders = ["Field", "Excel"];
       for (const site of sites) {
         tableHeaders.push(site);
       }
-      tableHeaders.push("Status");
+      tableHeaders.push("Status", "Consensus", "Suggested");
 
       lines.push("| " + tableHeaders.join(" | ") + " |");
       lines.push(
@@ -210,25 +296,35 @@ export function saveMarkdownReport(
         for (const site of sites) {
           row.push(fc.scraped[site] ?? "-");
         }
-        row.push(fc.status);
+        row.push(
+          fc.status,
+          fc.consensus
+            ? `${fc.consensus.value} (${Math.round(fc.consensus.confidence * 100)}%)`
+            : "-",
+          fc.suggestion ?? "-"
+        );
         lines.push("| " + row.join(" | ") + " |");
       }
 
       lines.push("");
 
-      // Variant check notes
+      // Variant check notes, naming the closest site variant where there is one
       if (comparison.variantCheck.status !== "match") {
+        const withMatch = (site: string) => {
+          const match = comparison.variantCheck.matches?.[site];
+          return match ? `${site} ("${match.variant}", ${match.score})` : site;
+        };
         lines.push(
           `**Variant check:** \`${comparison.variantCheck.excel}\` — status: **${comparison.variantCheck.status}**`
         );
         if (comparison.variantCheck.foundOnSites.length > 0) {
           lines.push(
-            `- Found on: ${comparison.variantCheck.foundOnSites.join(", ")}`
+            `- Found on: ${comparison.variantCheck.foundOnSites.map(withMatch).join(", ")}`
           );
         }
         if (comparison.variantCheck.notFoundOnSites.length > 0) {
           lines.push(
-            `- Not found on: ${comparison.variantCheck.notFoundOnSites.join(", ")}`
+            `- Not found on: ${comparison.variantCheck.notFoundOnSites.map(withMatch).join(", ")}`
           );
         }
         lines.push("");
@@ -236,6 +332,60 @@ export function saveMarkdownReport(
     }
   }
 
+  // --- Coverage gaps ---
+  const fieldGaps = comparisons.filter((c) => c.coverage?.fields.length);
+  // Every row of a car carries the same variant gaps; list each once
+  const variantGaps = new Map<
+    string,
+    { car: string; variant: string; sites: Record<string, string> }
+  >();
+  for (const comparison of comparisons) {
+    for (const gap of comparison.coverage?.variants ?? []) {
+      const key = `${comparison.car}|${gap.variant}`.toLowerCase();
+      if (!variantGaps.has(key)) {
+        variantGaps.set(key, { car: comparison.car, ...gap });
+      }
+    }
+  }
+
+  if (fieldGaps.length > 0 || variantGaps.size > 0) {
+    lines.push("## Coverage Gaps");
+    lines.push("");
+
+    if (fieldGaps.length > 0) {
+      lines.push("### Fields the sites list but the sheet leaves blank");
+      lines.push("");
+      lines.push("| Row | Car | Field | Scraped |");
+      lines.push("| --- | --- | --- | --- |");
+      for (const comparison of fieldGaps) {
+        const row = comparison.sheetName
+          ? `${comparison.sheetName}, ${comparison.rowNumber}`
+          : String(comparison.rowNumber);
+        for (const { field, scraped } of comparison.coverage!.fields) {
+          const values = Object.entries(scraped)
+            .map(([site, value]) => `${site}: ${value}`)
+            .join("; ");
+          lines.push(`| ${row} | ${comparison.car} | ${field} | ${values} |`);
+        }
+      }
+      lines.push("");
+    }
+
+    if (variantGaps.size > 0) {
+      lines.push("### Variants on two or more sites but not in the sheet");
+      lines.push("");
+      lines.push("| Car | Variant | Listed on |");
+      lines.push("| --- | --- | --- |");
+      for (const gap of variantGaps.values()) {
+        const listedOn = Object.entries(gap.sites)
+          .map(([site, name]) => `${site} ("${name}")`)
+          .join(", ");
+        lines.push(`| ${gap.car} | ${gap.variant} | ${listedOn} |`);
+      }
+      lines.push("");
+    }
+  }
+
   const markdown = lines.join("\n");
   const outputPath = path.join(outputDir, "ev-data-report.md");
   fs.writeFileSync(outputPath, markdown, "utf-8");
@@ -4,6 +4,21 @@ import * as path from "path";
 import { fileURLToPath } from "url";
 import { fetchFromApi, type ApiConfig } from "./api-fetcher.js";
 import { scrapeWithBrowser, closeBrowser } from "./browser-scraper.js";
+import type { ExcelEntry } from "./excel-parser.js";
+import { parseSpecs, type SpecValue } from "./spec-values.js";
+import { validateSiteConfig } from "./site-config-schema.js";
+import {
+  cachedFetch,
+  isCached,
+  loadCacheSettings,
+  type CacheSettings,
+} from "./page-cache.js";
+import {
+  checkUrlStatus,
+  searchSite,
+  type SearchConfig,
+  type SearchCandidate,
+} from "./site-search.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -12,11 +27,48 @@ const __dirname = path.dirname(__filename);
 // Interfaces
 // ---------------------------------------------------------------------------
 
+export interface SlugRules {
+  lowercase?: boolean; // default true
+  separator?: string; // default "-"
+  // Exact overrides keyed by the spreadsheet value (case-insensitive),
+  // e.g. { "Mercedes": "mercedes-benz" }
+  brandOverrides?: Record<string, string>;
+  modelOverrides?: Record<string, string>;
+}
+
+/**
+ * Where a page lists several trims with their own price and specs, e.g. a
+ * trim/price table. All selectors except `row` are relative to one row.
+ */
+export interface TrimSelectors {
+  row: string;
+  name: string;
+  price?: string;
+  // Spec label → selector, e.g. { "battery_capacity": "td:nth-child(3)" }
+  specs?: Record<string, string>;
+}
+
+/** One trim scraped from a trim table or API trim list. */
+export interface ScrapedTrim {
+  name: string;
+  price: string;
+  specs: Record<string, string>;
+  typedSpecs?: Record<string, SpecValue>;
+}
+
 export interface SiteConfig {
   name: string;
   baseUrl: string;
+  // Path (or absolute URL) with {brand}, {model} and {variant} placeholders,
+  // e.g. "/new-cars/{brand}/{model}"
+  urlTemplate?: string;
+  slugRules?: SlugRules;
+  // Used to find the model page when the templated URL 404s
+  search?: SearchConfig;
   disabled?: boolean;
   disabledReason?: string;
+  // How much this site counts towards a field's consensus value (default 1)
+  trustWeight?: number;
   preferredStrategy?: "api" | "cheerio" | "playwright";
   apiConfig?: ApiConfig;
   selectors: {
@@ -28,6 +80,7 @@ export interface SiteConfig {
     variants?: string;
     images?: string;
   };
+  trims?: TrimSelectors;
 }
 
 export interface ScrapedData {
@@ -37,57 +90,234 @@ export interface ScrapedData {
     title: string;
     price: string;
     specs: Record<string, string>;
+    // Filled by scrapeEvData for whichever strategy succeeded
+    typedSpecs?: Record<string, SpecValue>;
     variants: string[];
+    // Per-trim price and specs when the site config describes trim rows
+    trims?: ScrapedTrim[];
   };
   rawText: string;
   strategy?: string; // which strategy succeeded
+  urlResolution?: UrlResolution;
+  // Whether the page came from the on-disk cache, and when it was fetched
+  fromCache?: boolean;
+  fetchedAt?: string; // ISO timestamp
+}
+
+/** How the scraped URL was chosen. */
+export interface UrlResolution {
+  method: "explicit" | "template" | "search";
+  templateUrl?: string;
+  templateStatus?: number; // HTTP status that triggered the search fallback
+  query?: string;
+  searchUrl?: string;
+  candidates?: SearchCandidate[];
+  picked?: string;
 }
 
 // ---------------------------------------------------------------------------
 // Config loading
 // ---------------------------------------------------------------------------
 
-export function loadSiteConfig(siteKey: string): SiteConfig | null {
-  const configPath = path.join(
-    __dirname,
-    "..",
-    "config",
-    "sites",
-    `${siteKey}.json`
-  );
-  if (!fs.existsSync(configPath)) return null;
+const SITES_DIR = path.join(__dirname, "..", "config", "sites");
+
+// Site keys are file names in SITES_DIR, so they can't hold dots or slashes
+const SITE_KEY = /^[a-z0-9][a-z0-9-]*$/;
+const SITE_KEY_RULE = "use lowercase letters, digits and dashes";
+
+/** Throw unless `siteKey` is a valid site key. */
+export function assertSiteKey(siteKey: string): void {
+  if (!SITE_KEY.test(siteKey)) {
+    throw new Error(`Invalid site key "${siteKey}": ${SITE_KEY_RULE}`);
+  }
+}
+
+/**
+ * Read and validate config/sites/<siteKey>.json. `config` is null when the
+ * file is missing (no errors) or invalid (errors say where). A malformed key
+ * is an error and nothing is read.
+ */
+export function readSiteConfig(siteKey: string): {
+  config: SiteConfig | null;
+  errors: string[];
+} {
+  if (!SITE_KEY.test(siteKey)) {
+    return { config: null, errors: [`invalid site key: ${SITE_KEY_RULE}`] };
+  }
+  const configPath = path.join(SITES_DIR, `${siteKey}.json`);
+  if (!fs.existsSync(configPath)) return { config: null, errors: [] };
+  let parsed: unknown;
   try {
-    return JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    parsed = JSON.parse(fs.readFileSync(configPath, "utf-8"));
   } catch (err) {
-    console.error(`Failed to parse site config "${siteKey}":`, err);
-    return null;
+    return {
+      config: null,
+      errors: [`invalid JSON: ${err instanceof Error ? err.message : err}`],
+    };
   }
+  return validateSiteConfig(parsed);
 }
 
+/** Load a site config. Invalid configs are logged and treated as missing. */
+export function loadSiteConfig(siteKey: string): SiteConfig | null {
+  const { config, errors } = readSiteConfig(siteKey);
+  if (errors.length > 0) {
+    console.error(
+      `Invalid site config "${siteKey}":\n  ${errors.join("\n  ")}`
+    );
+  }
+  return config;
+}
+
+/**
+ * Load a site config or throw, saying whether the file is missing or what
+ * is wrong with it.
+ */
+export function requireSiteConfig(siteKey: string): SiteConfig {
+  const { config, errors } = readSiteConfig(siteKey);
+  if (config) return config;
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid site config "${siteKey}": ${errors.join("; ")}`
+    );
+  }
+  throw new Error(`Unknown site "${siteKey}". No config found in config/sites/`);
+}
+
+function siteKeys(): string[] {
+  if (!fs.existsSync(SITES_DIR)) {
+    console.error(`Site config directory not found: ${SITES_DIR}`);
+    return [];
+  }
+  return fs
+    .readdirSync(SITES_DIR)
+    .filter((f) => f.endsWith(".json"))
+    .map((f) => path.basename(f, ".json"));
+}
+
+/** Every valid site config, keyed by site key; invalid ones are logged and skipped. */
 export function loadAllConfigs(): Record<string, SiteConfig> {
-  const configDir = path.join(__dirname, "..", "config", "sites");
   const configs: Record<string, SiteConfig> = {};
+  for (const key of siteKeys()) {
+    const config = loadSiteConfig(key);
+    if (config) configs[key] = config;
+  }
+  return configs;
+}
 
-  if (!fs.existsSync(configDir)) {
-    console.error(`Site config directory not found: ${configDir}`);
-    return configs;
+export interface SiteSummary {
+  site: string;
+  name?: string;
+  baseUrl?: string;
+  enabled: boolean;
+  disabledReason?: string;
+  preferredStrategy?: SiteConfig["preferredStrategy"];
+  // Present when the config fails validation; such sites are never scraped
+  errors?: string[];
+}
+
+/** One line per config file, including disabled and invalid ones. */
+export function listSites(): SiteSummary[] {
+  return siteKeys()
+    .sort()
+    .map((site) => {
+      const { config, errors } = readSiteConfig(site);
+      if (!config) return { site, enabled: false, errors };
+      return {
+        site,
+        name: config.name,
+        baseUrl: config.baseUrl,
+        enabled: !config.disabled,
+        ...(config.disabled
+          ? { disabledReason: config.disabledReason || "no reason given" }
+          : {}),
+        ...(config.preferredStrategy
+          ? { preferredStrategy: config.preferredStrategy }
+          : {}),
+      };
+    });
+}
+
+/**
+ * Validate a site config and write it to config/sites/<siteKey>.json,
+ * replacing any existing file. Configs are read from disk on every use, so
+ * the change applies to the next scrape without a restart.
+ */
+export function saveSiteConfig(siteKey: string, config: unknown): SiteConfig {
+  assertSiteKey(siteKey);
+  const { config: valid, errors } = validateSiteConfig(config);
+  if (!valid) {
+    throw new Error(`Invalid site config "${siteKey}": ${errors.join("; ")}`);
   }
+  fs.mkdirSync(SITES_DIR, { recursive: true });
+  fs.writeFileSync(
+    path.join(SITES_DIR, `${siteKey}.json`),
+    JSON.stringify(valid, null, 2) + "\n",
+    "utf-8"
+  );
+  return valid;
+}
 
-  const files = fs.readdirSync(configDir).filter((f) => f.endsWith(".json"));
-  for (const file of files) {
-    const key = path.basename(file, ".json");
-    try {
-      const content = fs.readFileSync(path.join(configDir, file), "utf-8");
-      configs[key] = JSON.parse(content);
-    } catch (err) {
-      console.error(`Failed to parse site config "${file}":`, err);
-    }
+// ---------------------------------------------------------------------------
+// URL templates
+// ---------------------------------------------------------------------------
+
+/**
+ * Turn a spreadsheet value into a URL slug: strip accents, collapse anything
+ * that isn't a letter or digit into the separator, and trim the ends.
+ */
+export function slugify(value: string, rules: SlugRules = {}): string {
+  const slug = value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/^[^A-Za-z0-9]+|[^A-Za-z0-9]+$/g, "")
+    .replace(/[^A-Za-z0-9]+/g, rules.separator ?? "-");
+  return rules.lowercase === false ? slug : slug.toLowerCase();
+}
+
+/**
+ * Slug for a brand or model on a site: the exact override from `slugRules`
+ * when there is one (case-insensitive), otherwise `slugify`.
+ */
+export function siteSlug(
+  field: "brand" | "model",
+  value: string,
+  rules: SlugRules = {}
+): string {
+  const overrides =
+    field === "brand" ? rules.brandOverrides : rules.modelOverrides;
+  const target = value.toLowerCase().trim();
+  for (const [key, slug] of Object.entries(overrides ?? {})) {
+    if (key.toLowerCase().trim() === target) return slug;
   }
+  return slugify(value, rules);
+}
 
-  return configs;
+/**
+ * Build a page URL for an Excel row from the site's `urlTemplate`.
+ * Returns null if the site has no template.
+ */
+export function buildSiteUrl(
+  config: SiteConfig,
+  entry: Pick<ExcelEntry, "brand" | "model"> & { variant?: string }
+): string | null {
+  if (!config.urlTemplate) return null;
+
+  const rules = config.slugRules ?? {};
+  const brand = siteSlug("brand", entry.brand, rules);
+  const model = siteSlug("model", entry.model, rules);
+  const variant = slugify(entry.variant ?? "", rules);
+
+  const populated = config.urlTemplate
+    .replace(/\{brand\}/g, brand)
+    .replace(/\{model\}/g, model)
+    .replace(/\{variant\}/g, variant);
+
+  if (/^https?:\/\//i.test(populated)) return populated;
+  return config.baseUrl.replace(/\/+$/, "") + "/" + populated.replace(/^\/+/, "");
 }
 
-function detectSiteKey(
+export function detectSiteKey(
   url: string,
   configs: Record<string, SiteConfig>
 ): string | null {
@@ -113,7 +343,8 @@ const DEFAULT_TIMEOUT_MS = 15000;
 const MAX_RETRIES = 2;
 const RETRY_DELAY_MS = 2000;
 
-async function fetchWithRetry(
+/** GET a page's HTML, retrying with backoff. Returns "" if every attempt fails. */
+export async function fetchWithRetry(
   url: string,
   retries: number = MAX_RETRIES
 ): Promise<string> {
@@ -164,71 +395,123 @@ async function fetchWithRetry(
   return ""; // Return empty string instead of throwing — let waterfall continue
 }
 
-async function scrapeWithCheerio(
+/** Read one ScrapedTrim per trim row; rows without a name are skipped. */
+function extractTrims(
+  $: cheerio.CheerioAPI,
+  trims: TrimSelectors
+): ScrapedTrim[] {
+  const result: ScrapedTrim[] = [];
+  $(trims.row).each((_, row) => {
+    const name = $(row).find(trims.name).first().text().trim();
+    if (!name) return;
+    const price = trims.price
+      ? $(row).find(trims.price).first().text().trim()
+      : "";
+    const specs: Record<string, string> = {};
+    for (const [label, selector] of Object.entries(trims.specs ?? {})) {
+      const value = $(row).find(selector).first().text().trim();
+      if (value) specs[label] = value;
+    }
+    result.push({ name, price, specs });
+  });
+  return result;
+}
+
+/**
+ * Attribute snapshotPage puts on elements the browser didn't render, so the
+ * raw text of a snapshot leaves them out the way innerText would.
+ */
+export const HIDDEN_ATTR = "data-scraper-hidden";
+
+/**
+ * Extract the configured fields and the page text from HTML: a fetched page,
+ * or the DOM Playwright rendered. Selectors still see hidden elements.
+ */
+export function extractFromHtml(
+  html: string,
+  config: SiteConfig | null
+): Pick<ScrapedData, "data" | "rawText"> {
+  const $ = cheerio.load(html);
+  const data: ScrapedData["data"] = { title: "", price: "", specs: {}, variants: [] };
+
+  if (config) {
+    if (config.selectors.title) {
+      data.title = $(config.selectors.title).first().text().trim();
+    }
+    if (config.selectors.price) {
+      data.price = $(config.selectors.price).first().text().trim();
+    }
+    if (config.selectors.specsTable) {
+      $(config.selectors.specsTable).each((_, row) => {
+        const labelSel = config.selectors.specLabel || "td:first-child";
+        const valueSel = config.selectors.specValue || "td:last-child";
+        let label = $(row).find(labelSel).first().text().trim();
+        let value = $(row).find(valueSel).first().text().trim();
+        // Pattern 2 (Tailwind sites): row IS the label, value is next sibling
+        if (!label && $(row).is(labelSel)) {
+          label = $(row).text().trim();
+          const sibling = $(row).next(valueSel);
+          if (sibling.length) {
+            value = sibling.text().trim();
+          }
+        }
+        if (label && value && label !== value) {
+          data.specs[label.toLowerCase().replace(/\s+/g, "_")] = value;
+        }
+      });
+    }
+    if (config.selectors.variants) {
+      $(config.selectors.variants).each((_, el) => {
+        const variant = $(el).text().trim();
+        if (variant) data.variants.push(variant);
+      });
+    }
+    if (config.trims) {
+      data.trims = extractTrims($, config.trims);
+    }
+  }
+
+  // Raw text fallback
+  $("script, style, nav, footer, header, noscript, iframe").remove();
+  $(`[${HIDDEN_ATTR}]`).remove();
+  const rawText = $("body")
+    .text()
+    .replace(/\s+/g, " ")
+    .trim()
+    .substring(0, 8000);
+
+  return { data, rawText };
+}
+
+/**
+ * Strategy 2: fetch the HTML (through the page cache) and extract with the
+ * site's selectors. Returns null when the page yields nothing useful.
+ */
+export async function scrapeWithCheerio(
   url: string,
   siteKey: string,
-  config: SiteConfig | null
+  config: SiteConfig | null,
+  cache: CacheSettings
 ): Promise<ScrapedData | null> {
   try {
-    const html = await fetchWithRetry(url);
+    const page = await cachedFetch(url, "cheerio", cache, () =>
+      fetchWithRetry(url)
+    );
 
-    if (!html) {
+    if (!page) {
       console.error(`[cheerio] Empty response for ${url}`);
       return null;
     }
 
-    const $ = cheerio.load(html);
-
     const result: ScrapedData = {
       source: siteKey,
       url,
-      data: { title: "", price: "", specs: {}, variants: [] },
-      rawText: "",
+      ...extractFromHtml(page.body, config),
       strategy: "cheerio",
+      fromCache: page.fromCache,
+      fetchedAt: page.fetchedAt,
     };
 
-    if (config) {
-      if (config.selectors.title) {
-        result.data.title = $(config.selectors.title).first().text().trim();
-      }
-      if (config.selectors.price) {
-        result.data.price = $(config.selectors.price).first().text().trim();
-      }
-      if (config.selectors.specsTable) {
-        $(config.selectors.specsTable).each((_, row) => {
-          const labelSel = config.selectors.specLabel || "td:first-child";
-          const valueSel = config.selectors.specValue || "td:last-child";
-          let label = $(row).find(labelSel).first().text().trim();
-          let value = $(row).find(valueSel).first().text().trim();
-          // Pattern 2 (Tailwind sites): row IS the label, value is next sibling
-          if (!label && $(row).is(labelSel)) {
-            label = $(row).text().trim();
-            const sibling = $(row).next(valueSel);
-            if (sibling.length) {
-              value = sibling.text().trim();
-            }
-          }
-          if (label && value && label !== value) {
-            result.data.specs[label.toLowerCase().replace(/\s+/g, "_")] = value;
-          }
-        });
-      }
-      if (config.selectors.variants) {
-        $(config.selectors.variants).each((_, el) => {
-          const variant = $(el).text().trim();
-          if (variant) result.data.variants.push(variant);
-        });
-      }
-    }
-
-    // Raw text fallback
-    $("script, style, nav, footer, header, noscript, iframe").remove();
-    result.rawText = $("body")
-      .text()
-      .replace(/\s+/g, " ")
-      .trim()
-      .substring(0, 8000);
-
     // If we got no structured data and barely any raw text, consider it a failure
     const hasData =
       result.data.title ||
@@ -276,43 +559,22 @@ function getStrategyOrder(
 }
 
 /**
- * Main entry point: scrape EV data using a 3-strategy waterfall.
- *
- *   1. API (fastest)  → if fails →
- *   2. Cheerio (fast) → if fails →
- *   3. Playwright (heavy, most reliable)
- *
- * The preferred strategy from the site config determines the order.
- * Returns the first successful result. Raw text fallback is always included.
+ * Run the strategy waterfall for one page with the given config, which need
+ * not be saved yet. Returns the first successful result with typed specs, or
+ * null if every strategy failed. The API strategy needs `brand` and `model`.
  */
-export async function scrapeEvData(
+export async function runStrategies(
   url: string,
-  siteKey?: string,
+  siteKey: string,
+  config: SiteConfig | null,
+  cache: CacheSettings,
   brand?: string,
   model?: string
-): Promise<ScrapedData> {
-  const allConfigs = loadAllConfigs();
-  const resolvedKey = siteKey || detectSiteKey(url, allConfigs) || "unknown";
-  const config = resolvedKey !== "unknown" ? loadSiteConfig(resolvedKey) : null;
-
-  // Skip disabled sites
-  if (config?.disabled) {
-    console.error(
-      `[scraper] Skipping disabled site: ${resolvedKey} (${config.disabledReason || "no reason given"})`
-    );
-    return {
-      source: resolvedKey,
-      url,
-      data: { title: "", price: "", specs: {}, variants: [] },
-      rawText: "",
-      strategy: "skipped-disabled",
-    };
-  }
-
+): Promise<ScrapedData | null> {
   const strategies = getStrategyOrder(config);
 
   console.error(
-    `[scraper] Scraping ${url} (site: ${resolvedKey}, strategy order: ${strategies.join(" → ")})`
+    `[scraper] Scraping ${url} (site: ${siteKey}, strategy order: ${strategies.join(" → ")})`
   );
 
   for (const strategy of strategies) {
@@ -324,10 +586,11 @@ export async function scrapeEvData(
       case "api":
         if (config?.apiConfig && brand && model) {
           result = await fetchFromApi(
-            resolvedKey,
+            siteKey,
             config.apiConfig,
             brand,
-            model
+            model,
+            cache
           );
           if (result) result.strategy = "api";
         } else {
@@ -338,11 +601,21 @@ export async function scrapeEvData(
         break;
 
       case "cheerio":
-        result = await scrapeWithCheerio(url, resolvedKey, config);
+        result = await scrapeWithCheerio(
+          url,
+          siteKey,
+          config,
+          cache
+        );
         break;
 
       case "playwright":
-        result = await scrapeWithBrowser(url, resolvedKey, config);
+        result = await scrapeWithBrowser(
+          url,
+          siteKey,
+          config,
+          cache
+        );
         if (result) result.strategy = "playwright";
         break;
     }
@@ -351,12 +624,157 @@ export async function scrapeEvData(
       console.error(
         `[scraper] Success with strategy: ${strategy} for ${url}`
       );
+      result.data.typedSpecs = parseSpecs(result.data.specs, siteKey);
+      for (const trim of result.data.trims ?? []) {
+        trim.typedSpecs = parseSpecs(trim.specs, siteKey);
+      }
+      // Trim names double as the variant list when the page has no other
+      if (result.data.variants.length === 0 && result.data.trims) {
+        result.data.variants = result.data.trims.map((t) => t.name);
+      }
       return result;
     }
 
     console.error(`[scraper] Strategy ${strategy} failed, trying next...`);
   }
 
+  return null;
+}
+
+/**
+ * Check the templated URL and fall back to the site's search on 404/410.
+ * Null when the status check itself failed, so nothing gets cached.
+ */
+async function resolveTemplateUrl(
+  siteKey: string,
+  siteConfig: SiteConfig,
+  built: string,
+  brand: string,
+  model: string
+): Promise<UrlResolution | null> {
+  const status = await checkUrlStatus(built);
+  if (status === null) return null;
+  const template: UrlResolution = { method: "template", templateUrl: built };
+  if (status !== 404 && status !== 410) return template;
+
+  console.error(
+    `[scraper] ${built} returned HTTP ${status}, falling back to site search`
+  );
+  const found = await searchSite(siteKey, siteConfig, brand, model);
+  return found
+    ? { method: "search", templateUrl: built, templateStatus: status, ...found }
+    : template;
+}
+
+/**
+ * Main entry point: scrape EV data using a 3-strategy waterfall.
+ *
+ *   1. API (fastest)  → if fails →
+ *   2. Cheerio (fast) → if fails →
+ *   3. Playwright (heavy, most reliable)
+ *
+ * The preferred strategy from the site config determines the order.
+ * Returns the first successful result. Raw text fallback is always included.
+ *
+ * When `url` is omitted it is built from the site's `urlTemplate`, which
+ * needs `siteKey`, `brand` and `model`. If that page returns 404/410 and the
+ * site has a `search` block, the site's own search picks the page instead.
+ *
+ * A site whose config fails validation is an error, as in requireSiteConfig;
+ * an unknown site is scraped without selectors.
+ *
+ * Pages go through the on-disk cache (config/cache.json, `cache` overrides
+ * it), and so does the template URL's resolution; the status check is skipped
+ * when the template page itself is cached. In offline mode nothing is
+ * fetched: a cached resolution is reused, and each strategy only succeeds if
+ * it has a cached copy of the page.
+ */
+export async function scrapeEvData(
+  url: string | undefined,
+  siteKey?: string,
+  brand?: string,
+  model?: string,
+  variant?: string,
+  cache: Partial<CacheSettings> = {}
+): Promise<ScrapedData> {
+  let resolution: UrlResolution = { method: "explicit" };
+  const cacheSettings = loadCacheSettings(cache);
+
+  if (!url) {
+    if (!siteKey || !brand || !model) {
+      throw new Error(
+        "Either a URL or a siteKey with brand and model is required"
+      );
+    }
+    const siteConfig = requireSiteConfig(siteKey);
+    const built = buildSiteUrl(siteConfig, { brand, model, variant });
+    if (!built) {
+      throw new Error(
+        `Site "${siteKey}" has no urlTemplate; pass the page URL explicitly`
+      );
+    }
+    url = built;
+    resolution = { method: "template", templateUrl: built };
+
+    // A fresh cached copy of the template page means it existed; otherwise
+    // the status check and any search are cached like a page
+    const pageCached =
+      isCached(built, "cheerio", cacheSettings) ||
+      isCached(built, "snapshot", cacheSettings);
+    if (siteConfig.search && !siteConfig.disabled && !pageCached) {
+      const cached = await cachedFetch(built, "resolution", cacheSettings, async () => {
+        const resolved = await resolveTemplateUrl(siteKey, siteConfig, built, brand, model);
+        return resolved ? JSON.stringify(resolved) : "";
+      });
+      if (cached) {
+        resolution = JSON.parse(cached.body);
+        url = resolution.picked ?? built;
+      }
+    }
+  }
+
+  const allConfigs = loadAllConfigs();
+  const resolvedKey = siteKey || detectSiteKey(url, allConfigs) || "unknown";
+  // A broken config fails the scrape: without its selectors the result would
+  // be raw text only, with nothing to say extraction never ran
+  const { config, errors } =
+    resolvedKey !== "unknown"
+      ? readSiteConfig(resolvedKey)
+      : { config: null, errors: [] };
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid site config "${resolvedKey}": ${errors.join("; ")}`
+    );
+  }
+
+  // Skip disabled sites
+  if (config?.disabled) {
+    console.error(
+      `[scraper] Skipping disabled site: ${resolvedKey} (${config.disabledReason || "no reason given"})`
+    );
+    return {
+      source: resolvedKey,
+      url,
+      data: { title: "", price: "", specs: {}, variants: [] },
+      rawText: "",
+      strategy: "skipped-disabled",
+      urlResolution: resolution,
+    };
+  }
+
+  const result = await runStrategies(
+    url,
+    resolvedKey,
+    config,
+    cacheSettings,
+    brand,
+    model
+  );
+  if (result) {
+    result.urlResolution = resolution;
+    return result;
+  }
+
   // All strategies failed — return minimal result with whatever we have
   console.error(`[scraper] All strategies failed for ${url}`);
   return {
@@ -365,6 +783,7 @@ export async function scrapeEvData(
     data: { title: "", price: "", specs: {}, variants: [] },
     rawText: "",
     strategy: "none",
+    urlResolution: resolution,
   };
 }
 
@@ -0,0 +1,120 @@
+/**
+ * zod schemas for config/sites/*.json. Objects are strict, so a misspelt key
+ * ("specLable") is an error instead of a selector that is silently ignored.
+ */
+
+import { z } from "zod";
+import type { SiteConfig, SlugRules, TrimSelectors } from "./scraper.js";
+import type { ApiConfig } from "./api-fetcher.js";
+import type { SearchConfig } from "./site-search.js";
+
+const selector = z.string().min(1);
+
+const slugRulesSchema: z.ZodType<SlugRules> = z
+  .object({
+    lowercase: z.boolean().optional(),
+    separator: z.string().optional(),
+    brandOverrides: z.record(z.string()).optional(),
+    modelOverrides: z.record(z.string()).optional(),
+  })
+  .strict();
+
+const searchConfigSchema: z.ZodType<SearchConfig> = z
+  .object({
+    type: z.enum(["html", "json"]),
+    urlTemplate: z.string().min(1),
+    headers: z.record(z.string()).optional(),
+    resultSelector: selector.optional(),
+    resultsPath: z.string().optional(),
+    linkPath: z.string().optional(),
+    titlePath: z.string().optional(),
+    maxCandidates: z.number().int().positive().optional(),
+  })
+  .strict();
+
+const apiConfigSchema: z.ZodType<ApiConfig> = z
+  .object({
+    endpoint: z.string().url(),
+    searchPath: z.string().optional(),
+    headers: z.record(z.string()).optional(),
+    responseMapping: z
+      .object({
+        title: z.string().optional(),
+        price: z.string().optional(),
+        specs: z.string().optional(),
+        variants: z.string().optional(),
+        trims: z
+          .object({
+            path: z.string().min(1),
+            name: z.string().min(1),
+            price: z.string().optional(),
+            specs: z.string().optional(),
+          })
+          .strict()
+          .optional(),
+      })
+      .strict(),
+  })
+  .strict();
+
+const trimSelectorsSchema: z.ZodType<TrimSelectors> = z
+  .object({
+    row: selector,
+    name: selector,
+    price: selector.optional(),
+    specs: z.record(selector).optional(),
+  })
+  .strict();
+
+export const siteConfigSchema: z.ZodType<SiteConfig> = z
+  .object({
+    name: z.string().min(1),
+    baseUrl: z.string().url(),
+    urlTemplate: z.string().min(1).optional(),
+    slugRules: slugRulesSchema.optional(),
+    search: searchConfigSchema.optional(),
+    disabled: z.boolean().optional(),
+    disabledReason: z.string().optional(),
+    trustWeight: z.number().positive().optional(),
+    preferredStrategy: z.enum(["api", "cheerio", "playwright"]).optional(),
+    apiConfig: apiConfigSchema.optional(),
+    selectors: z
+      .object({
+        title: selector.optional(),
+        price: selector.optional(),
+        specsTable: selector.optional(),
+        specLabel: selector.optional(),
+        specValue: selector.optional(),
+        variants: selector.optional(),
+        images: selector.optional(),
+      })
+      .strict(),
+    trims: trimSelectorsSchema.optional(),
+  })
+  .strict();
+
+/** "selectors.specLable", "apiConfig.responseMapping.trims.path", "(root)" */
+function issuePath(path: Array<string | number>): string {
+  const text = path
+    .map((p, i) => (typeof p === "number" ? `[${p}]` : i === 0 ? p : `.${p}`))
+    .join("");
+  return text || "(root)";
+}
+
+/**
+ * Validate parsed JSON against the site config schema. Errors name the exact
+ * path, one per problem, e.g. `selectors.specLable: unknown key`.
+ */
+export function validateSiteConfig(
+  value: unknown
+): { config: SiteConfig; errors: [] } | { config: null; errors: string[] } {
+  const result = siteConfigSchema.safeParse(value);
+  if (result.success) return { config: result.data, errors: [] };
+
+  const errors = result.error.issues.flatMap((issue) =>
+    issue.code === "unrecognized_keys"
+      ? issue.keys.map((key) => `${issuePath([...issue.path, key])}: unknown key`)
+      : [`${issuePath(issue.path)}: ${issue.message}`]
+  );
+  return { config: null, errors };
+}
@@ -0,0 +1,124 @@
+import {
+  assertSiteKey,
+  readSiteConfig,
+  requireSiteConfig,
+  saveSiteConfig,
+  runStrategies,
+  type ScrapedData,
+  type SiteConfig,
+} from "./scraper.js";
+import { validateSiteConfig } from "./site-config-schema.js";
+import { loadCacheSettings } from "./page-cache.js";
+
+export interface UpsertSiteOptions {
+  site: string;
+  // Full definition; when omitted the existing config is edited
+  config?: unknown;
+  // true needs a reason (given here or already in the config); false
+  // re-enables the site and drops the reason
+  disabled?: boolean;
+  disabledReason?: string;
+  // Page to scrape with the new config before saving it
+  sampleUrl?: string;
+  // Needed to try the API strategy on the sample
+  sampleBrand?: string;
+  sampleModel?: string;
+  // Validate (and scrape the sample) without writing anything
+  dryRun?: boolean;
+}
+
+export interface UpsertSiteResult {
+  site: string;
+  created: boolean;
+  saved: boolean;
+  config: SiteConfig;
+  // What the scraper extracted from sampleUrl with this config
+  sample?: {
+    url: string;
+    strategy?: string;
+    title: string;
+    price: string;
+    specs: Record<string, string>;
+    variants: string[];
+    trims?: ScrapedData["data"]["trims"];
+  };
+}
+
+/**
+ * Create or edit config/sites/<site>.json. The new config is validated and,
+ * with a sample URL, scraped first; it is only written if both succeed, and
+ * takes effect on the next scrape.
+ */
+export async function upsertSiteConfig(
+  options: UpsertSiteOptions
+): Promise<UpsertSiteResult> {
+  const { site } = options;
+  assertSiteKey(site);
+  const existing = readSiteConfig(site);
+  const created = !existing.config && existing.errors.length === 0;
+
+  let base: unknown = options.config;
+  if (base === undefined) {
+    if (created) {
+      throw new Error(
+        `Unknown site "${site}". Pass a full config to create it`
+      );
+    }
+    base = requireSiteConfig(site);
+  }
+  if (!base || typeof base !== "object" || Array.isArray(base)) {
+    throw new Error("config must be a JSON object");
+  }
+
+  const draft: Record<string, unknown> = { ...base };
+  if (options.disabledReason !== undefined) {
+    draft.disabledReason = options.disabledReason;
+  }
+  if (options.disabled === true) {
+    if (!draft.disabledReason) {
+      throw new Error(`Give a disabledReason when disabling "${site}"`);
+    }
+    draft.disabled = true;
+  } else if (options.disabled === false) {
+    delete draft.disabled;
+    delete draft.disabledReason;
+  }
+
+  const { config, errors } = validateSiteConfig(draft);
+  if (!config) {
+    throw new Error(`Invalid site config "${site}": ${errors.join("; ")}`);
+  }
+
+  const result: UpsertSiteResult = { site, created, saved: false, config };
+
+  if (options.sampleUrl) {
+    const scraped = await runStrategies(
+      options.sampleUrl,
+      site,
+      config,
+      loadCacheSettings(),
+      options.sampleBrand,
+      options.sampleModel
+    );
+    if (!scraped) {
+      throw new Error(
+        `No strategy extracted anything from ${options.sampleUrl}; "${site}" was not saved`
+      );
+    }
+    result.sample = {
+      url: options.sampleUrl,
+      strategy: scraped.strategy,
+      title: scraped.data.title,
+      price: scraped.data.price,
+      specs: scraped.data.specs,
+      variants: scraped.data.variants,
+      ...(scraped.data.trims ? { trims: scraped.data.trims } : {}),
+    };
+  }
+
+  if (!options.dryRun) {
+    result.config = saveSiteConfig(site, config);
+    result.saved = true;
+  }
+  return result;
+}
@@ -0,0 +1,269 @@
+/**
+ * Selector audits for site configs. When a site is redesigned the scrapers
+ * don't fail, they just return empty specs, so this loads a sample page and
+ * counts what each configured selector still matches.
+ */
+
+import * as cheerio from "cheerio";
+import * as fs from "fs";
+import {
+  fetchWithRetry,
+  readSiteConfig,
+  requireSiteConfig,
+  listSites,
+  type SiteConfig,
+} from "./scraper.js";
+import { snapshotPage } from "./browser-scraper.js";
+import { cachedFetch, loadCacheSettings, type CacheSettings } from "./page-cache.js";
+import { listFixtures, fixturePagePath } from "./fixtures.js";
+
+export interface SelectorHealth {
+  // Where the selector lives in the config, e.g. "selectors.price"
+  selector: string;
+  css: string;
+  matches: number;
+  // Text of the first few matches, shortened
+  samples: string[];
+  passed: boolean;
+  // Why the selector could not be run at all
+  error?: string;
+}
+
+export interface SiteHealth {
+  site: string;
+  name: string;
+  status: "healthy" | "needs_attention" | "unreachable" | "no_sample" | "disabled";
+  // URL or fixture file the selectors were checked against
+  source?: string;
+  rendered?: boolean;
+  selectors: SelectorHealth[];
+  note?: string;
+  // Validation errors of a config that can't be loaded
+  errors?: string[];
+}
+
+export interface SiteHealthOptions {
+  // Live page to check; without one the site's first fixture is used
+  url?: string;
+  // Render the live page with Playwright first (default: when the site
+  // prefers Playwright). Fixtures use rendered.html when this is set.
+  render?: boolean;
+  cache?: Partial<CacheSettings>;
+}
+
+const MAX_SAMPLES = 3;
+const SAMPLE_LENGTH = 80;
+
+function sampleText(text: string): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > SAMPLE_LENGTH ? `${clean.slice(0, SAMPLE_LENGTH - 1)}…` : clean;
+}
+
+/**
+ * Count matches for every selector in the config. Spec label/value and trim
+ * selectors are relative to their rows, so they count the rows in which they
+ * match, the way the scrapers read them. A selector that doesn't parse fails
+ * on its own, with the parse error, instead of aborting the audit.
+ */
+function auditSelectors($: cheerio.CheerioAPI, config: SiteConfig): SelectorHealth[] {
+  const results: SelectorHealth[] = [];
+  const audit = (selector: string, css: string, collect: () => string[]) => {
+    let texts: string[];
+    try {
+      // Parse the selector even when there are no rows to run it against
+      $(css);
+      texts = collect();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      results.push({
+        selector,
+        css,
+        matches: 0,
+        samples: [],
+        passed: false,
+        error: `invalid selector: ${message}`,
+      });
+      return;
+    }
+    const samples = texts.map(sampleText).filter(Boolean).slice(0, MAX_SAMPLES);
+    results.push({ selector, css, matches: texts.length, samples, passed: texts.length > 0 });
+  };
+  const select = (css: string) => {
+    try {
+      return $(css).toArray();
+    } catch {
+      return [];
+    }
+  };
+  const texts = (css: string) => () => select(css).map((el) => $(el).text());
+
+  const { specsTable, specLabel, specValue, ...pageSelectors } = config.selectors;
+  for (const [key, css] of Object.entries(pageSelectors)) {
+    if (css) audit(`selectors.${key}`, css, texts(css));
+  }
+
+  if (specsTable) {
+    const rows = select(specsTable);
+    audit("selectors.specsTable", specsTable, texts(specsTable));
+
+    const labelSel = specLabel || "td:first-child";
+    const valueSel = specValue || "td:last-child";
+    // Tailwind-style rows: the row is the label and the value its sibling
+    audit("selectors.specLabel", labelSel, () =>
+      rows.flatMap((row) => {
+        const label = $(row).find(labelSel).first();
+        if (label.length) return [label.text()];
+        return $(row).is(labelSel) ? [$(row).text()] : [];
+      })
+    );
+    audit("selectors.specValue", valueSel, () =>
+      rows.flatMap((row) => {
+        const value = $(row).find(valueSel).first();
+        if (value.length) return [value.text()];
+        const sibling = $(row).next(valueSel);
+        return sibling.length ? [sibling.text()] : [];
+      })
+    );
+  }
+
+  if (config.trims) {
+    const rows = select(config.trims.row);
+    audit("trims.row", config.trims.row, texts(config.trims.row));
+    const inRows = (css: string) => () =>
+      rows
+        .map((row) => $(row).find(css).first())
+        .filter((el) => el.length > 0)
+        .map((el) => el.text());
+    audit("trims.name", config.trims.name, inRows(config.trims.name));
+    if (config.trims.price) {
+      audit("trims.price", config.trims.price, inRows(config.trims.price));
+    }
+    for (const [label, css] of Object.entries(config.trims.specs ?? {})) {
+      audit(`trims.specs.${label}`, css, inRows(css));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Audit one site's selectors against a sample page: `options.url` fetched
+ * (or rendered) live through the page cache, or else the site's first
+ * recorded fixture. A config that fails validation needs attention and is
+ * not audited.
+ */
+export async function checkSiteHealth(
+  site: string,
+  options: SiteHealthOptions = {}
+): Promise<SiteHealth> {
+  const { errors } = readSiteConfig(site);
+  if (errors.length > 0) {
+    return {
+      site,
+      name: site,
+      status: "needs_attention",
+      selectors: [],
+      note: `invalid config: ${errors.join("; ")}`,
+      errors,
+    };
+  }
+  const config = requireSiteConfig(site);
+  const health: SiteHealth = { site, name: config.name, status: "healthy", selectors: [] };
+  if (config.disabled && !options.url) {
+    health.status = "disabled";
+    health.note = config.disabledReason || "no reason given";
+    return health;
+  }
+
+  const render = options.render ?? config.preferredStrategy === "playwright";
+  let html: string | null = null;
+
+  if (options.url) {
+    const cache = loadCacheSettings(options.cache);
+    const page = render
+      ? await cachedFetch(options.url, "snapshot", cache, async () =>
+          (await snapshotPage(options.url!, config)) ?? ""
+        )
+      : await cachedFetch(options.url, "cheerio", cache, () =>
+          fetchWithRetry(options.url!)
+        );
+    health.source = options.url;
+    health.rendered = render;
+    html = page?.body ?? null;
+  } else {
+    const fixture = listFixtures(site)[0];
+    if (!fixture) {
+      health.status = "no_sample";
+      health.note = "no url given and no recorded fixture";
+      return health;
+    }
+    // Rendered snapshot first for Playwright sites, the raw HTML otherwise
+    const order = render
+      ? (["playwright", "cheerio"] as const)
+      : (["cheerio", "playwright"] as const);
+    const file = order
+      .map((strategy) => fixturePagePath(site, fixture, strategy))
+      .find((f) => fs.existsSync(f));
+    if (file) {
+      health.source = file;
+      health.rendered = file.endsWith("rendered.html");
+      html = fs.readFileSync(file, "utf-8");
+    }
+  }
+
+  if (!html) {
+    health.status = "unreachable";
+    health.note = `could not load ${health.source ?? "the sample page"}`;
+    return health;
+  }
+
+  health.selectors = auditSelectors(cheerio.load(html), config);
+  if (health.selectors.some((s) => !s.passed)) {
+    health.status = "needs_attention";
+  }
+  return health;
+}
+
+/**
+ * Audit every config file in config/sites/, invalid ones included. `urls`
+ * gives a live sample page per site; sites without one are checked against
+ * their fixtures.
+ */
+export async function checkAllSitesHealth(
+  urls: Record<string, string> = {},
+  options: Omit<SiteHealthOptions, "url"> = {}
+): Promise<SiteHealth[]> {
+  const results: SiteHealth[] = [];
+  for (const { site } of listSites()) {
+    results.push(await checkSiteHealth(site, { ...options, url: urls[site] }));
+  }
+  return results;
+}
+
+/** Markdown table with one row per site, sites needing attention first. */
+export function formatHealthTable(results: SiteHealth[]): string {
+  const order: Record<SiteHealth["status"], number> = {
+    needs_attention: 0,
+    unreachable: 1,
+    no_sample: 2,
+    healthy: 3,
+    disabled: 4,
+  };
+  const lines = [
+    "| Site | Status | Selectors passing | Failing | Checked against |",
+    "| --- | --- | --- | --- | --- |",
+  ];
+  for (const result of [...results].sort((a, b) => order[a.status] - order[b.status])) {
+    const passing = result.selectors.filter((s) => s.passed).length;
+    const failing = result.selectors
+      .filter((s) => !s.passed)
+      .map((s) => `\`${s.selector}\``)
+      .join(", ");
+    lines.push(
+      `| ${result.site} | ${result.status.replace("_", " ")} | ${
+        result.selectors.length > 0 ? `${passing}/${result.selectors.length}` : "-"
+      } | ${failing || "-"} | ${result.source ?? result.note ?? "-"} |`
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,252 @@
+import * as cheerio from "cheerio";
+import { getNestedValue } from "./api-fetcher.js";
+import { siteSlug, type SiteConfig } from "./scraper.js";
+
+export interface SearchConfig {
+  // "html" scrapes links from a search/listing page, "json" reads a search API
+  type: "html" | "json";
+  // Path (or absolute URL) with {query}, {brand} and {model} placeholders,
+  // e.g. "/search?q={query}" or "/new-cars/{brand}"
+  urlTemplate: string;
+  headers?: Record<string, string>;
+  // html: selector for candidate <a> elements ({brand}/{model} allowed)
+  resultSelector?: string;
+  // json: dot path to the results array, and paths within each result
+  resultsPath?: string;
+  linkPath?: string;
+  titlePath?: string;
+  maxCandidates?: number;
+}
+
+export interface SearchCandidate {
+  url: string;
+  text: string;
+  score: number;
+}
+
+export interface SearchResolution {
+  query: string;
+  searchUrl: string;
+  candidates: SearchCandidate[];
+  picked: string;
+}
+
+const SEARCH_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_CANDIDATES = 10;
+const MIN_CANDIDATE_SCORE = 0.75;
+
+const USER_AGENT =
+  "Mozilla/5.0 (compatible; DriveEV-DataChecker/1.0; +https://driveev.com)";
+
+/**
+ * Return the HTTP status of a URL, or null if the request itself failed.
+ * Used to tell a missing page (404/410) apart from a network problem.
+ */
+export async function checkUrlStatus(url: string): Promise<number | null> {
+  try {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), SEARCH_TIMEOUT_MS);
+    const response = await fetch(url, {
+      headers: { "User-Agent": USER_AGENT },
+      redirect: "follow",
+      signal: controller.signal,
+    });
+    clearTimeout(timeout);
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined);
+    return response.status;
+  } catch (err) {
+    console.error(
+      `[search] Status check failed for ${url}:`,
+      err instanceof Error ? err.message : err
+    );
+    return null;
+  }
+}
+
+/** Lowercase and drop everything but letters and digits ("ID.4" → "id4"). */
+function compact(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function tokenize(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Score a candidate link against brand + model. Each query token found in the
+ * link path or text counts equally; finding the whole model as one compact
+ * string ("id4" in "/vw/id-4") earns a bonus. Shorter paths win ties so
+ * "model-y" is preferred over "model-y-performance-edition".
+ */
+function scoreCandidate(
+  candidate: { url: string; text: string },
+  brand: string,
+  model: string
+): number {
+  let pathname = candidate.url;
+  try {
+    pathname = new URL(candidate.url).pathname;
+  } catch {
+    // Keep the raw string
+  }
+  const haystack = compact(`${pathname} ${candidate.text}`);
+  const tokens = [...tokenize(brand), ...tokenize(model)];
+  if (tokens.length === 0) return 0;
+
+  const matched = tokens.filter((t) => haystack.includes(t)).length;
+  let score = matched / tokens.length;
+  if (haystack.includes(compact(model))) score += 0.5;
+  return score - pathname.length / 10_000;
+}
+
+function fillTemplate(
+  template: string,
+  values: Record<string, string>
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in values ? values[key] : placeholder
+  );
+}
+
+function resolveLink(href: string, base: string): string | null {
+  try {
+    const url = new URL(href, base);
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+async function fetchSearchPage(
+  url: string,
+  search: SearchConfig
+): Promise<Response | null> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), SEARCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent": USER_AGENT,
+        Accept:
+          search.type === "json"
+            ? "application/json"
+            : "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+        ...search.headers,
+      },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      console.error(
+        `[search] HTTP ${response.status} ${response.statusText} for ${url}`
+      );
+      return null;
+    }
+    return response;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Resolve brand + model to a model page using the site's own search.
+ *
+ * Returns the best-scoring candidate link together with every candidate that
+ * was considered, or null if the search failed or nothing scored high enough.
+ */
+export async function searchSite(
+  siteKey: string,
+  config: SiteConfig,
+  brand: string,
+  model: string
+): Promise<SearchResolution | null> {
+  const search = config.search;
+  if (!search) return null;
+
+  const rules = config.slugRules ?? {};
+  const query = `${brand} ${model}`.trim();
+  const values = {
+    query: encodeURIComponent(query),
+    brand: siteSlug("brand", brand, rules),
+    model: siteSlug("model", model, rules),
+  };
+
+  const populated = fillTemplate(search.urlTemplate, values);
+  const searchUrl = /^https?:\/\//i.test(populated)
+    ? populated
+    : config.baseUrl.replace(/\/+$/, "") + "/" + populated.replace(/^\/+/, "");
+
+  try {
+    const response = await fetchSearchPage(searchUrl, search);
+    if (!response) return null;
+
+    const raw: Array<{ url: string; text: string }> = [];
+
+    if (search.type === "json") {
+      const json = await response.json();
+      const results = search.resultsPath
+        ? getNestedValue(json, search.resultsPath)
+        : json;
+      if (!Array.isArray(results)) {
+        console.error(
+          `[search] ${siteKey}: "${search.resultsPath ?? "(root)"}" is not an array`
+        );
+        return null;
+      }
+      for (const item of results) {
+        const link = search.linkPath
+          ? getNestedValue(item, search.linkPath)
+          : item;
+        const text = search.titlePath
+          ? getNestedValue(item, search.titlePath)
+          : "";
+        if (typeof link === "string" && link) {
+          raw.push({ url: link, text: String(text ?? "") });
+        }
+      }
+    } else {
+      const html = await response.text();
+      const $ = cheerio.load(html);
+      const selector = fillTemplate(search.resultSelector || "a[href]", values);
+      $(selector).each((_, el) => {
+        const href = $(el).attr("href");
+        if (href) raw.push({ url: href, text: $(el).text().trim() });
+      });
+    }
+
+    const seen = new Set<string>();
+    const candidates: SearchCandidate[] = [];
+    for (const item of raw) {
+      const url = resolveLink(item.url, config.baseUrl);
+      if (!url || seen.has(url)) continue;
+      seen.add(url);
+      candidates.push({ ...item, url, score: scoreCandidate(item, brand, model) });
+    }
+
+    candidates.sort((a, b) => b.score - a.score);
+    const top = candidates.slice(
+      0,
+      search.maxCandidates ?? DEFAULT_MAX_CANDIDATES
+    );
+
+    if (top.length === 0 || top[0].score < MIN_CANDIDATE_SCORE) {
+      console.error(
+        `[search] ${siteKey}: no candidate for "${query}" (${candidates.length} links checked)`
+      );
+      return null;
+    }
+
+    console.error(`[search] ${siteKey}: picked ${top[0].url} for "${query}"`);
+    return { query, searchUrl, candidates: top, picked: top[0].url };
+  } catch (err) {
+    console.error(
+      `[search] ${siteKey}: search failed for "${query}":`,
+      err instanceof Error ? err.message : err
+    );
+    return null;
+  }
+}
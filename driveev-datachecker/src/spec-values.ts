@@ -0,0 +1,362 @@
+/**
+ * Typed spec values shared by the Excel parser, the scrapers and the
+ * comparator. Every value keeps the raw string it was parsed from so reports
+ * can show exactly what the sheet or the site said.
+ */
+
+import { findSynonymGroup } from "./synonyms.js";
+
+export type SpecValue =
+  | { kind: "number"; raw: string; value: number; unit?: string }
+  | { kind: "range"; raw: string; min: number; max: number; unit?: string }
+  | {
+      kind: "duration";
+      raw: string;
+      years?: number;
+      distanceKm?: number;
+      unlimitedDistance?: boolean;
+    }
+  | { kind: "boolean"; raw: string; value: boolean }
+  | { kind: "enum"; raw: string; value: string }
+  | { kind: "text"; raw: string; value: string };
+
+/**
+ * Get the canonical form for a value if it belongs to a synonym group
+ * (config/value-synonyms.json, including `site`'s own spellings).
+ * Returns the canonical key if found, otherwise the lowercased value.
+ */
+export function getCanonicalValue(val: string, site?: string): string {
+  const lower = val.toLowerCase().trim();
+  return findSynonymGroup("values", lower, site)?.[0] ?? lower;
+}
+
+/**
+ * Unit spellings seen on spec sheets and UAE sites, mapped to one canonical
+ * spelling. Keys are lowercase with spaces and dots removed.
+ */
+const UNIT_ALIASES: Record<string, string> = {
+  kwh: "kWh",
+  kw: "kW",
+  km: "km",
+  kms: "km",
+  kilometers: "km",
+  kilometres: "km",
+  "km/h": "km/h",
+  kmh: "km/h",
+  kph: "km/h",
+  mph: "mph",
+  mi: "mi",
+  mile: "mi",
+  miles: "mi",
+  hp: "hp",
+  bhp: "hp",
+  ps: "PS",
+  nm: "Nm",
+  "lb-ft": "lb-ft",
+  lbft: "lb-ft",
+  "lb-ftoftorque": "lb-ft",
+  kg: "kg",
+  kgs: "kg",
+  lb: "lb",
+  lbs: "lb",
+  pounds: "lb",
+  mm: "mm",
+  cm: "cm",
+  m: "m",
+  meters: "m",
+  metres: "m",
+  in: "in",
+  inch: "in",
+  inches: "in",
+  l: "L",
+  litre: "L",
+  litres: "L",
+  liter: "L",
+  liters: "L",
+  cuft: "cu ft",
+  cubicfeet: "cu ft",
+  s: "s",
+  sec: "s",
+  secs: "s",
+  second: "s",
+  seconds: "s",
+  "%": "%",
+  "kwh/100km": "kWh/100km",
+  "wh/km": "Wh/km",
+  "mi/kwh": "mi/kWh",
+  "km/kwh": "km/kWh",
+  aed: "AED",
+  usd: "USD",
+  sar: "SAR",
+  eur: "EUR",
+  seat: "seats",
+  seats: "seats",
+  seater: "seats",
+  doors: "doors",
+  door: "doors",
+};
+
+/**
+ * Conversions into one canonical unit per quantity, so "402 hp" and "300 kW"
+ * or "310 mi" and "499 km" can be compared. `factor` multiplies a value in
+ * the unit to get the canonical unit.
+ */
+const UNIT_CONVERSIONS: Record<
+  string,
+  { quantity: string; canonical: string; factor: number }
+> = {
+  kW: { quantity: "power", canonical: "kW", factor: 1 },
+  hp: { quantity: "power", canonical: "kW", factor: 0.745699872 },
+  PS: { quantity: "power", canonical: "kW", factor: 0.73549875 },
+  Nm: { quantity: "torque", canonical: "Nm", factor: 1 },
+  "lb-ft": { quantity: "torque", canonical: "Nm", factor: 1.3558179483 },
+  km: { quantity: "distance", canonical: "km", factor: 1 },
+  mi: { quantity: "distance", canonical: "km", factor: 1.609344 },
+  "km/h": { quantity: "speed", canonical: "km/h", factor: 1 },
+  mph: { quantity: "speed", canonical: "km/h", factor: 1.609344 },
+  mm: { quantity: "length", canonical: "mm", factor: 1 },
+  cm: { quantity: "length", canonical: "mm", factor: 10 },
+  m: { quantity: "length", canonical: "mm", factor: 1000 },
+  in: { quantity: "length", canonical: "mm", factor: 25.4 },
+  kg: { quantity: "weight", canonical: "kg", factor: 1 },
+  lb: { quantity: "weight", canonical: "kg", factor: 0.45359237 },
+  L: { quantity: "volume", canonical: "L", factor: 1 },
+  "cu ft": { quantity: "volume", canonical: "L", factor: 28.316846592 },
+};
+
+/**
+ * Convert a value to the canonical unit of its quantity ("402 hp" → 299.8 kW).
+ * Returns undefined for units without a known conversion.
+ */
+export function toCanonicalUnit(
+  value: number,
+  unit: string
+): { value: number; unit: string; quantity: string } | undefined {
+  const conversion = UNIT_CONVERSIONS[unit];
+  if (!conversion) return undefined;
+  return {
+    value: value * conversion.factor,
+    unit: conversion.canonical,
+    quantity: conversion.quantity,
+  };
+}
+
+const YEAR_UNITS = new Set(["year", "years", "yr", "yrs"]);
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  yes: true,
+  true: true,
+  standard: true,
+  available: true,
+  "✓": true,
+  "✔": true,
+  no: false,
+  false: false,
+  "not available": false,
+  none: false,
+  "✗": false,
+  "✘": false,
+};
+
+const NUMBER = String.raw`[-+]?\d{1,3}(?:,\d{3})+(?:\.\d+)?|[-+]?\d+(?:\.\d+)?`;
+const CURRENCY_PREFIX = String.raw`(?:(AED|USD|SAR|EUR|Dhs?\.?)\s*)?`;
+const UNIT = String.raw`([a-zA-Z%/\-.\s]*?)`;
+// A trailing note in brackets ("300 kW (402 hp)") is ignored
+const TRAILING_NOTE = String.raw`(?:\s*[([].*[)\]])?`;
+
+const NUMBER_PATTERN = new RegExp(
+  String.raw`^${CURRENCY_PREFIX}(${NUMBER})\s*${UNIT}${TRAILING_NOTE}$`,
+  "i"
+);
+const RANGE_PATTERN = new RegExp(
+  String.raw`^${CURRENCY_PREFIX}(${NUMBER})\s*${UNIT}\s*(?:-|–|—|to)\s*${CURRENCY_PREFIX}(${NUMBER})\s*${UNIT}${TRAILING_NOTE}$`,
+  "i"
+);
+
+function toNumber(text: string): number {
+  return parseFloat(text.replace(/,/g, ""));
+}
+
+/**
+ * Canonical spelling of a unit, or undefined if the text is not a known unit.
+ * An empty string means "no unit" and also returns undefined.
+ */
+export function normalizeUnit(unit: string | undefined): string | undefined {
+  if (!unit) return undefined;
+  const key = unit.toLowerCase().replace(/[\s.]/g, "");
+  if (!key) return undefined;
+  if (key === "dh" || key === "dhs") return "AED";
+  return UNIT_ALIASES[key];
+}
+
+/**
+ * Unit a bare number is in for canonical fields (config/field-aliases.json)
+ * whose name has no unit in brackets, e.g. "402" under "Horsepower" is hp.
+ */
+const FIELD_UNITS: Record<string, string> = {
+  horsepower: "hp",
+  torque: "Nm",
+  weight: "kg",
+  length: "mm",
+  width: "mm",
+  height: "mm",
+  boot_space: "L",
+};
+
+function bracketUnit(key: string): string | undefined {
+  const match = key.match(/\(([^)]*)\)/);
+  if (!match) return undefined;
+  const inner = match[1].replace(/_/g, " ").trim();
+  const firstWord = inner.split(/\s+/)[0] ?? "";
+  if (YEAR_UNITS.has(firstWord.toLowerCase())) return "years";
+  return normalizeUnit(inner) ?? normalizeUnit(firstWord);
+}
+
+/**
+ * Unit implied by a spec key or header, from the text in brackets:
+ * "battery_(kwh)" → "kWh", "charging_(kw_ac)" → "kW", "warranty_(years)" → "years".
+ * Keys without one take the unit of their canonical field, so "Range" is km
+ * and "Horsepower" or "Max Power" is hp.
+ */
+export function unitHintFromKey(key: string, site?: string): string | undefined {
+  const own = bracketUnit(key);
+  if (own) return own;
+  const canonical = findSynonymGroup("fields", key, site)?.[0];
+  if (!canonical) return undefined;
+  return bracketUnit(canonical) ?? FIELD_UNITS[canonical];
+}
+
+/**
+ * Parse warranty-style durations: "5 yrs / 100,000 km", "8 years or
+ * 160000 km", "36 months", "3 years / unlimited km".
+ */
+function parseDuration(raw: string): SpecValue | null {
+  const text = raw.toLowerCase();
+  const years = text.match(/(\d+(?:\.\d+)?)\s*-?\s*(?:years?|yrs?)\b/);
+  const months = text.match(/(\d+)\s*-?\s*months?\b/);
+  if (!years && !months) return null;
+
+  const result: Extract<SpecValue, { kind: "duration" }> = {
+    kind: "duration",
+    raw,
+    years: years ? parseFloat(years[1]) : Number(months![1]) / 12,
+  };
+
+  if (/unlimited\s*(?:km|kms|kilomet(?:er|re)s?|mileage|miles)?/.test(text)) {
+    result.unlimitedDistance = true;
+  } else {
+    const distance = text.match(
+      new RegExp(String.raw`(${NUMBER})\s*(k)?\s*(?:km|kms|kilomet(?:er|re)s?)\b`)
+    );
+    if (distance) {
+      result.distanceKm = toNumber(distance[1]) * (distance[2] ? 1000 : 1);
+    }
+  }
+  return result;
+}
+
+/**
+ * Turn a raw spec string into a typed value.
+ *
+ * `unitHint` is the unit implied by the column ("Battery (kWh)") and is used
+ * when the value itself has none, so "75" under "Battery (kWh)" and "75.0kWh"
+ * on a site both become 75 kWh. A hint of "years" makes bare numbers
+ * durations. `site` adds that site's own value synonyms.
+ */
+export function parseSpecValue(
+  raw: string,
+  unitHint?: string,
+  site?: string
+): SpecValue {
+  const text = raw.replace(/\s+/g, " ").trim();
+  const lower = text.toLowerCase();
+
+  if (lower in BOOLEAN_VALUES) {
+    return { kind: "boolean", raw, value: BOOLEAN_VALUES[lower] };
+  }
+
+  const range = text.match(RANGE_PATTERN);
+  if (range) {
+    const unit =
+      normalizeUnit(range[3]) ?? normalizeUnit(range[6]) ?? currencyUnit(range[1] ?? range[4]);
+    const unitText = (range[3] || range[6] || "").trim();
+    if (!unitText || unit) {
+      const min = toNumber(range[2]);
+      const max = toNumber(range[5]);
+      return {
+        kind: "range",
+        raw,
+        min: Math.min(min, max),
+        max: Math.max(min, max),
+        ...withUnit(unit ?? unitHint),
+      };
+    }
+  }
+
+  const duration = parseDuration(text);
+  if (duration) return duration;
+
+  const number = text.match(NUMBER_PATTERN);
+  if (number) {
+    const unitText = number[3].trim();
+    const unit = normalizeUnit(unitText) ?? currencyUnit(number[1]);
+    if (!unitText || unit) {
+      const value = toNumber(number[2]);
+      if (!unit && unitHint === "years") {
+        return { kind: "duration", raw, years: value };
+      }
+      return { kind: "number", raw, value, ...withUnit(unit ?? unitHint) };
+    }
+  }
+
+  const canonical = getCanonicalValue(text, site);
+  if (canonical !== lower) {
+    return { kind: "enum", raw, value: canonical };
+  }
+
+  return { kind: "text", raw, value: lower };
+}
+
+function currencyUnit(prefix: string | undefined): string | undefined {
+  return prefix ? normalizeUnit(prefix) : undefined;
+}
+
+function withUnit(unit: string | undefined): { unit?: string } {
+  return unit && unit !== "years" ? { unit } : {};
+}
+
+/** Parse every value of a specs map, using each key's unit hint. */
+export function parseSpecs(
+  specs: Record<string, string>,
+  site?: string
+): Record<string, SpecValue> {
+  const typed: Record<string, SpecValue> = {};
+  for (const [key, raw] of Object.entries(specs)) {
+    typed[key] = parseSpecValue(raw, unitHintFromKey(key, site), site);
+  }
+  return typed;
+}
+
+/** Short display form of a typed value, e.g. "75 kWh" or "5 yrs / 100,000 km". */
+export function formatSpecValue(value: SpecValue): string {
+  switch (value.kind) {
+    case "number":
+      return `${value.value}${value.unit ? ` ${value.unit}` : ""}`;
+    case "range":
+      return `${value.min}-${value.max}${value.unit ? ` ${value.unit}` : ""}`;
+    case "duration": {
+      const parts: string[] = [];
+      if (value.years !== undefined) parts.push(`${value.years} yrs`);
+      if (value.unlimitedDistance) parts.push("unlimited km");
+      else if (value.distanceKm !== undefined) {
+        parts.push(`${value.distanceKm.toLocaleString()} km`);
+      }
+      return parts.join(" / ");
+    }
+    case "boolean":
+      return value.value ? "yes" : "no";
+    case "enum":
+    case "text":
+      return value.value;
+  }
+}
@@ -0,0 +1,214 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * "fields": spec labels that mean the same field ("battery_capacity" →
+ * "battery_(kwh)"). "values": spec values that mean the same thing
+ * ("rear-wheel drive" → "rwd").
+ */
+export type SynonymKind = "fields" | "values";
+
+export interface SynonymDictionary {
+  version: number;
+  // Canonical term → other spellings
+  groups: Record<string, string[]>;
+  // Extra spellings used by one site, keyed by site config key, then by
+  // canonical term
+  sites: Record<string, Record<string, string[]>>;
+}
+
+const DICTIONARY_PATHS: Record<SynonymKind, string> = {
+  fields: path.join(__dirname, "..", "config", "field-aliases.json"),
+  values: path.join(__dirname, "..", "config", "value-synonyms.json"),
+};
+
+// Parsed dictionaries, reloaded whenever the file on disk changes
+const cache: Partial<
+  Record<SynonymKind, { mtimeMs: number; dictionary: SynonymDictionary }>
+> = {};
+
+/**
+ * How terms are compared: field labels ignore underscores, spaces and dashes
+ * ("Top Speed" = "top_speed"), values only case and surrounding space.
+ */
+export function normalizeTerm(kind: SynonymKind, term: string): string {
+  return kind === "fields"
+    ? term.replace(/[_\s-]/g, "").toLowerCase()
+    : term.toLowerCase().trim();
+}
+
+function toGroups(value: unknown): Record<string, string[]> {
+  const groups: Record<string, string[]> = {};
+  if (!value || typeof value !== "object") return groups;
+  for (const [canonical, spellings] of Object.entries(value)) {
+    if (Array.isArray(spellings)) {
+      groups[canonical] = spellings.map((s: unknown) => String(s));
+    }
+  }
+  return groups;
+}
+
+/**
+ * Load a synonym dictionary from config/. A missing or broken file means an
+ * empty dictionary, so comparisons fall back to plain name/value matching.
+ */
+export function loadSynonyms(kind: SynonymKind): SynonymDictionary {
+  const file = DICTIONARY_PATHS[kind];
+  const empty: SynonymDictionary = { version: 1, groups: {}, sites: {} };
+  if (!fs.existsSync(file)) return empty;
+
+  const mtimeMs = fs.statSync(file).mtimeMs;
+  const cached = cache[kind];
+  if (cached && cached.mtimeMs === mtimeMs) return cached.dictionary;
+
+  try {
+    const stored = JSON.parse(fs.readFileSync(file, "utf-8"));
+    const sites: SynonymDictionary["sites"] = {};
+    for (const [site, groups] of Object.entries(stored.sites ?? {})) {
+      sites[site] = toGroups(groups);
+    }
+    const dictionary: SynonymDictionary = {
+      version: typeof stored.version === "number" ? stored.version : 1,
+      groups: toGroups(stored.groups),
+      sites,
+    };
+    cache[kind] = { mtimeMs, dictionary };
+    return dictionary;
+  } catch (err) {
+    console.error(`Failed to parse ${kind} synonyms "${file}":`, err);
+    return empty;
+  }
+}
+
+/**
+ * The groups in effect for a site: each group starts with its canonical term,
+ * followed by the shared spellings and then the site's own.
+ */
+export function synonymGroups(kind: SynonymKind, site?: string): string[][] {
+  const dictionary = loadSynonyms(kind);
+  const overrides = (site && dictionary.sites[site]) || {};
+  const groups: string[][] = [];
+  for (const [canonical, spellings] of Object.entries(dictionary.groups)) {
+    groups.push([canonical, ...spellings, ...(overrides[canonical] ?? [])]);
+  }
+  for (const [canonical, spellings] of Object.entries(overrides)) {
+    if (!(canonical in dictionary.groups)) groups.push([canonical, ...spellings]);
+  }
+  return groups;
+}
+
+/**
+ * Group containing `term` (canonical first), or undefined when the term is
+ * in no group.
+ */
+export function findSynonymGroup(
+  kind: SynonymKind,
+  term: string,
+  site?: string
+): string[] | undefined {
+  const normalized = normalizeTerm(kind, term);
+  return synonymGroups(kind, site).find((group) =>
+    group.some((t) => normalizeTerm(kind, t) === normalized)
+  );
+}
+
+/** Same layout as the shipped files: one line per group. */
+function formatDictionary(dictionary: SynonymDictionary): string {
+  const formatGroups = (groups: Record<string, string[]>, indent: string) => {
+    const entries = Object.entries(groups);
+    if (entries.length === 0) return "{}";
+    const lines = entries.map(
+      ([canonical, spellings]) =>
+        `${indent}  ${JSON.stringify(canonical)}: ${JSON.stringify(spellings)}`
+    );
+    return `{\n${lines.join(",\n")}\n${indent}}`;
+  };
+
+  const sites = Object.entries(dictionary.sites);
+  const sitesText =
+    sites.length === 0
+      ? "{}"
+      : `{\n${sites
+          .map(
+            ([site, groups]) =>
+              `    ${JSON.stringify(site)}: ${formatGroups(groups, "    ")}`
+          )
+          .join(",\n")}\n  }`;
+
+  return [
+    "{",
+    `  "version": ${dictionary.version},`,
+    `  "groups": ${formatGroups(dictionary.groups, "  ")},`,
+    `  "sites": ${sitesText}`,
+    "}",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Add a spelling to a synonym group, shared or for one site, creating the
+ * group when `canonical` is new. Throws when the alias (or a new canonical
+ * term) already belongs to a different group, since a term in two groups
+ * would make matching depend on file order.
+ *
+ * Returns the group as it now applies (for the site, if one was given).
+ */
+export function addSynonym(
+  kind: SynonymKind,
+  canonical: string,
+  alias: string,
+  site?: string
+): { added: boolean; group: string[] } {
+  const dictionary = structuredClone(loadSynonyms(kind));
+  const canonicalKey = normalizeTerm(kind, canonical);
+  const aliasKey = normalizeTerm(kind, alias);
+  if (!canonicalKey || !aliasKey) {
+    throw new Error("Both canonical and alias must be non-empty");
+  }
+
+  // Shared additions must not clash with any site's groups either
+  const sitesToCheck = site ? [site] : Object.keys(dictionary.sites);
+  const checkGroups = [
+    synonymGroups(kind),
+    ...sitesToCheck.map((s) => synonymGroups(kind, s)),
+  ].flat();
+
+  const existing = checkGroups.find(
+    (group) => normalizeTerm(kind, group[0]) === canonicalKey
+  );
+  const canonicalName = existing?.[0] ?? canonical;
+
+  for (const group of checkGroups) {
+    if (normalizeTerm(kind, group[0]) === canonicalKey) continue;
+    for (const [term, key] of [
+      [alias, aliasKey],
+      [canonical, canonicalKey],
+    ]) {
+      if (group.some((t) => normalizeTerm(kind, t) === key)) {
+        throw new Error(
+          `"${term}" is already in the "${group[0]}" group${site ? ` (for ${site})` : ""}`
+        );
+      }
+    }
+  }
+
+  const effective = synonymGroups(kind, site).find(
+    (group) => normalizeTerm(kind, group[0]) === canonicalKey
+  );
+  if (effective?.some((t) => normalizeTerm(kind, t) === aliasKey)) {
+    return { added: false, group: effective };
+  }
+
+  const target = site
+    ? (dictionary.sites[site] ??= {})
+    : dictionary.groups;
+  (target[canonicalName] ??= []).push(alias);
+
+  fs.writeFileSync(DICTIONARY_PATHS[kind], formatDictionary(dictionary), "utf-8");
+  delete cache[kind];
+  return { added: true, group: findSynonymGroup(kind, alias, site) ?? [canonicalName, alias] };
+}
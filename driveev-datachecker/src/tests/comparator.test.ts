@@ -0,0 +1,345 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  compareEntry,
+  loadComparisonRules,
+  type ComparisonRules,
+} from "../comparator.js";
+import type { ExcelEntry } from "../excel-parser.js";
+import type { ExchangeRates } from "../price-parser.js";
+
+const noRules: ComparisonRules = { fields: {}, ignore: [] };
+const rates: ExchangeRates = { asOf: "2026-01-01", base: "AED", rates: { AED: 1, USD: 3.6725 } };
+
+function entry(price: string, specs: Record<string, string> = {}): ExcelEntry {
+  return { rowNumber: 2, brand: "Tesla", model: "Model 3", variant: "Long Range", price, specs };
+}
+
+function site(
+  source: string,
+  price: string,
+  specs: Record<string, string> = {}
+): Parameters<typeof compareEntry>[1][number] {
+  return { source, price, specs, variants: [] };
+}
+
+test("price inside the scraped range matches", () => {
+  const result = compareEntry(entry("AED 160,000"), [site("a", "AED 149,900 - 179,900")], noRules, rates);
+  assert.equal(result.fields.price.status, "match");
+});
+
+test("starting-from price is a minimum", () => {
+  const from = [site("a", "Starting from AED 150,000")];
+  assert.equal(compareEntry(entry("AED 180,000"), from, noRules, rates).fields.price.status, "match");
+  assert.equal(compareEntry(entry("AED 140,000"), from, noRules, rates).fields.price.status, "mismatch");
+});
+
+test("starting-from price doesn't lift the list prices' ceiling", () => {
+  const sources = [site("a", "AED 200,000"), site("b", "Starting from AED 190,000")];
+  assert.equal(compareEntry(entry("AED 500,000"), sources, noRules, rates).fields.price.status, "mismatch");
+  assert.equal(compareEntry(entry("AED 195,000"), sources, noRules, rates).fields.price.status, "match");
+  assert.equal(compareEntry(entry("AED 180,000"), sources, noRules, rates).fields.price.status, "mismatch");
+});
+
+test("monthly prices are listed but not compared", () => {
+  const result = compareEntry(
+    entry("AED 160,000"),
+    [site("a", "AED 2,499/month"), site("b", "AED 160,000")],
+    noRules,
+    rates
+  );
+  const price = result.fields.price;
+  assert.equal(price.status, "match");
+  assert.deepEqual(price.consensus?.sources, ["b"]);
+  assert.match(price.note ?? "", /a: monthly instalment AED 2,499 \(not compared\)/);
+});
+
+test("foreign prices are converted before comparing", () => {
+  const result = compareEntry(entry("AED 183,625"), [site("a", "USD 50,000")], noRules, rates);
+  assert.equal(result.fields.price.status, "match");
+});
+
+test("the price column's currency applies to bare Excel prices", () => {
+  const result = compareEntry(
+    { ...entry("50,000"), priceCurrency: "USD" },
+    [site("a", "AED 183,625")],
+    noRules,
+    rates
+  );
+  assert.equal(result.fields.price.status, "match");
+  assert.match(result.fields.price.note ?? "", /= USD 50,000 \(1 AED = 0\.2723 USD, rates as of 2026-01-01\)/);
+});
+
+test("prices in a currency without a rate are not compared", () => {
+  const result = compareEntry(entry("AED 160,000"), [site("a", "GBP 35,000")], noRules, rates);
+  assert.equal(result.fields.price.status, "missing");
+  assert.match(result.fields.price.note ?? "", /not compared: no GBP to AED rate/);
+});
+
+test("values in different units are converted", () => {
+  const result = compareEntry(
+    entry("", { Horsepower: "402", "Range (km)": "499" }),
+    [site("a", "", { power: "300 kW", range: "310 mi" })],
+    noRules,
+    rates
+  );
+  assert.equal(result.fields.Horsepower.status, "match");
+  assert.equal(result.fields["Range (km)"].status, "match");
+});
+
+test("values that differ after conversion are named in the note", () => {
+  const result = compareEntry(
+    entry("", { "Torque (Nm)": "350" }),
+    [site("a", "", { torque: "258 lb-ft" }), site("b", "", { torque: "300 lb-ft" })],
+    noRules,
+    rates
+  );
+  const field = result.fields["Torque (Nm)"];
+  assert.equal(field.status, "mismatch");
+  assert.match(field.note ?? "", /b: 350 Nm vs 300 lb-ft differ after unit conversion/);
+  assert.doesNotMatch(field.note ?? "", /\ba:/);
+});
+
+test("a number inside a scraped range matches, and overlapping ranges agree", () => {
+  const inside = compareEntry(
+    entry("", { "Range (km)": "507" }),
+    [site("a", "", { range: "440 - 507 km" })],
+    noRules,
+    rates
+  ).fields["Range (km)"];
+  assert.equal(inside.status, "match");
+  assert.match(inside.note ?? "", /507 km is within 440-507 km/);
+
+  const overlap = compareEntry(
+    entry("", { "Range (km)": "450 - 480" }),
+    [site("a", "", { range: "470 - 510 km" })],
+    noRules,
+    rates
+  ).fields["Range (km)"];
+  assert.equal(overlap.status, "match");
+
+  const outside = compareEntry(
+    entry("", { "Range (km)": "530" }),
+    [site("a", "", { range: "440 - 507 km" })],
+    noRules,
+    rates
+  ).fields["Range (km)"];
+  assert.equal(outside.status, "mismatch");
+});
+
+test("tolerance is measured to the nearest end of a range", () => {
+  const rules: ComparisonRules = { fields: { "range_(km)": { absolute: 5 } }, ignore: [] };
+  const check = (excel: string) =>
+    compareEntry(entry("", { "Range (km)": excel }), [site("a", "", { range: "440 - 507 km" })], rules, rates)
+      .fields["Range (km)"].status;
+  assert.equal(check("511"), "within_tolerance");
+  assert.equal(check("436"), "within_tolerance");
+  assert.equal(check("513"), "mismatch");
+});
+
+test("tolerance rules allow small differences", () => {
+  const rules: ComparisonRules = { fields: { "range_(km)": { percent: 5 } }, ignore: [] };
+  const result = compareEntry(entry("", { "Range (km)": "500" }), [site("a", "", { range: "520 km" })], rules, rates);
+  assert.equal(result.fields["Range (km)"].status, "within_tolerance");
+});
+
+test("the larger tolerance wins and differences beyond it still mismatch", () => {
+  const rules: ComparisonRules = {
+    fields: { "range_(km)": { absolute: 5, percent: 2 } },
+    ignore: [],
+  };
+  const check = (scraped: string) =>
+    compareEntry(entry("", { "Range (km)": "500" }), [site("a", "", { range: scraped })], rules, rates)
+      .fields["Range (km)"].status;
+  assert.equal(check("509 km"), "within_tolerance");
+  assert.equal(check("511 km"), "mismatch");
+});
+
+test("ignored fields are not compared", () => {
+  const rules: ComparisonRules = { fields: {}, ignore: ["range_(km)"] };
+  const result = compareEntry(
+    entry("", { Range: "500", Seats: "5" }),
+    [site("a", "", { range: "520 km", seats: "5" })],
+    rules,
+    rates
+  );
+  assert.deepEqual(Object.keys(result.fields), ["price", "Seats"]);
+});
+
+test("the rules file gives every field its tolerance", () => {
+  const rules = loadComparisonRules();
+  assert.deepEqual(rules.fields["range_(km)"], { absolute: 5 });
+  assert.deepEqual(rules.fields.horsepower, { percent: 1 });
+});
+
+test("consensus only groups values that all agree", () => {
+  const result = compareEntry(
+    entry("", { "Range (km)": "450" }),
+    [
+      site("a", "", { range: "475 - 570 km" }),
+      site("b", "", { range: "521 km" }),
+      site("c", "", { range: "310 mi" }),
+    ],
+    noRules,
+    rates
+  );
+  const field = result.fields["Range (km)"];
+  assert.equal(field.status, "mismatch");
+  assert.deepEqual(field.consensus?.sources, ["a", "b"]);
+  assert.equal(field.consensus?.confidence, 0.67);
+});
+
+test("agreeing sources suggest a correction; a single source doesn't", () => {
+  const twoSites = compareEntry(
+    entry("", { "Battery (kWh)": "75" }),
+    [site("a", "", { battery: "82.5 kWh" }), site("b", "", { battery: "82.5" }), site("c", "", { battery: "75 kWh" })],
+    noRules,
+    rates
+  ).fields["Battery (kWh)"];
+  assert.deepEqual(twoSites.consensus, { value: "82.5 kWh", sources: ["a", "b"], confidence: 0.67 });
+  assert.equal(twoSites.suggestion, "82.5 kWh");
+
+  const oneSite = compareEntry(
+    entry("", { "Battery (kWh)": "75" }),
+    [site("a", "", { battery: "82.5 kWh" })],
+    noRules,
+    rates
+  ).fields["Battery (kWh)"];
+  assert.equal(oneSite.consensus?.confidence, 1);
+  assert.equal(oneSite.suggestion, undefined);
+});
+
+test("trust weight outvotes a larger group of sources", () => {
+  const field = compareEntry(
+    entry("", { "Range (km)": "510" }),
+    [
+      { ...site("oem", "", { range: "510 km" }), trustWeight: 3 },
+      site("a", "", { range: "520 km" }),
+      site("b", "", { range: "520 km" }),
+    ],
+    noRules,
+    rates
+  ).fields["Range (km)"];
+  assert.deepEqual(field.consensus, { value: "510 km", sources: ["oem"], confidence: 0.6 });
+  assert.equal(field.suggestion, undefined);
+});
+
+test("the matched trim's own price and specs are compared", () => {
+  const result = compareEntry(
+    entry("AED 189,900", { "Range (km)": "507" }),
+    [
+      {
+        ...site("a", "AED 164,900 - 214,900", { range: "440 - 507 km" }),
+        trims: [
+          { name: "Standard Range", price: "AED 164,900", specs: { range: "440 km" } },
+          { name: "Long Range", price: "AED 189,900", specs: { range: "507 km" } },
+        ],
+      },
+    ],
+    noRules,
+    rates
+  );
+  assert.deepEqual(result.trimsUsed, { a: "Long Range" });
+  assert.equal(result.fields.price.status, "match");
+  assert.equal(result.fields["Range (km)"].status, "match");
+});
+
+test("each site's closest variant is reported", () => {
+  const result = compareEntry(
+    entry(""),
+    [
+      { ...site("a", ""), variants: ["Standard Range", "Long Range AWD"] },
+      { ...site("b", ""), variants: ["Performance"] },
+    ],
+    noRules,
+    rates
+  );
+  assert.equal(result.variantCheck.status, "partial");
+  assert.deepEqual(result.variantCheck.foundOnSites, ["a"]);
+  assert.deepEqual(result.variantCheck.notFoundOnSites, ["b"]);
+  assert.equal(result.variantCheck.matches?.a.variant, "Long Range AWD");
+});
+
+test("0-60 mph times are a separate field from 0-100 km/h", () => {
+  const result = compareEntry(
+    entry("", { "0-100 (s)": "4.4" }),
+    [site("a", "", { "0-60_mph": "4.2 s" }), site("b", "", { acceleration: "4.2 s (0-60 mph)" })],
+    noRules,
+    rates
+  );
+  const field = result.fields["0-100 (s)"];
+  assert.deepEqual(Object.keys(field.scraped), ["b"]);
+  assert.equal(field.status, "missing");
+  assert.match(field.note ?? "", /0-60 mph and 0-100 km\/h/);
+});
+
+test("only acceleration fields get the sprint check", () => {
+  const result = compareEntry(
+    entry("", { "charging_time_(0-100%)": "0-60 min" }),
+    [site("a", "", { "charging_time_(0-100%)": "0-60 min" })],
+    noRules,
+    rates
+  );
+  assert.equal(result.fields["charging_time_(0-100%)"].status, "match");
+});
+
+test("a field the row has is not a coverage gap under another alias", () => {
+  const result = compareEntry(
+    entry("", { "Range (km)": "500", "0-100 (s)": "4.4" }),
+    [
+      site("a", "", {
+        range: "500 km",
+        electric_range: "500 km",
+        acceleration: "4.4 s",
+        "0-60_mph": "4.2 s",
+        top_speed: "201 km/h",
+      }),
+    ],
+    noRules,
+    rates
+  );
+  assert.deepEqual(
+    result.coverage?.fields.map((f) => f.field),
+    ["0-60_mph_(s)", "top_speed_(km/h)"]
+  );
+});
+
+test("values whose units can't be aligned stay out of the consensus", () => {
+  const result = compareEntry(
+    entry("", { Foo: "100" }),
+    [site("a", "", { Foo: "100 mi" }), site("b", "", { Foo: "100" })],
+    noRules,
+    rates
+  );
+  const field = result.fields.Foo;
+  assert.equal(field.status, "match");
+  assert.deepEqual(field.consensus?.sources, ["b"]);
+  assert.equal(field.consensus?.confidence, 1);
+});
+
+test("variants on several sites that no row has are coverage gaps", () => {
+  const result = compareEntry(
+    entry(""),
+    [
+      { ...site("a", ""), variants: ["Long Range", "Performance", "Launch Edition"] },
+      { ...site("b", ""), variants: ["Long Range", "Perf."] },
+      { ...site("c", ""), variants: ["Standard Range", "Performance AWD"] },
+    ],
+    noRules,
+    rates,
+    ["Long Range", "Standard Range"]
+  );
+  assert.deepEqual(result.coverage?.variants, [
+    { variant: "Performance", sites: { a: "Performance", b: "Perf.", c: "Performance AWD" } },
+  ]);
+});
+
+test("a row with nothing missing has no coverage section", () => {
+  const result = compareEntry(
+    entry("", { "Range (km)": "500" }),
+    [{ ...site("a", "", { range: "500 km" }), variants: ["Long Range"] }],
+    noRules,
+    rates
+  );
+  assert.equal(result.coverage, undefined);
+});
@@ -0,0 +1,238 @@
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import XLSX from "xlsx";
+import { parseExcelFile } from "../excel-parser.js";
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "excel-parser-test-"));
+after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+function writeWorkbook(name: string, rows: unknown[][]): string {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), "Cars");
+  const file = path.join(tmpDir, name);
+  XLSX.writeFile(workbook, file);
+  return file;
+}
+
+test("header below a title row, matched through aliases", () => {
+  const file = writeWorkbook("aliases.xlsx", [
+    ["EV price list"],
+    [],
+    ["Make", "Model", "Trim", "Price (AED)", "Battery (kWh)", "YallaMotor URL"],
+    ["Tesla", "Model 3", "Long Range", "189,900", "75", "https://www.yallamotor.com/new-cars/tesla/model-3"],
+  ]);
+  const { entries, sheets } = parseExcelFile(file);
+
+  assert.equal(sheets[0].headerRow, 3);
+  assert.equal(sheets[0].columns.brand?.header, "Make");
+  assert.equal(sheets[0].columns.variant?.matchedBy, "alias");
+  assert.equal(entries.length, 1);
+
+  const [entry] = entries;
+  assert.equal(entry.rowNumber, 4);
+  assert.equal(entry.variant, "Long Range");
+  assert.equal(entry.priceCurrency, "AED");
+  assert.deepEqual(entry.specs, { "battery_(kwh)": "75" });
+  assert.deepEqual(entry.typedSpecs?.["battery_(kwh)"], {
+    kind: "number",
+    raw: "75",
+    value: 75,
+    unit: "kWh",
+  });
+  assert.deepEqual(entry.sourceUrls, {
+    yallamotor: "https://www.yallamotor.com/new-cars/tesla/model-3",
+  });
+});
+
+test("grouped headers prefix the spec key and keep the plain field", () => {
+  const file = writeWorkbook("groups.xlsx", [
+    ["", "", "", "", "Charging", "Charging"],
+    ["Brand", "Model", "Variant", "Price", "AC (kW)", "DC (kW)"],
+    ["BYD", "Seal", "Premium", "169,900", "11", "150"],
+  ]);
+  const [entry] = parseExcelFile(file).entries;
+
+  assert.equal(entry.specs["charging_dc_(kw)"], "150");
+  assert.deepEqual(entry.specGroups?.["charging_dc_(kw)"], {
+    group: "Charging",
+    field: "dc_(kw)",
+  });
+});
+
+test("missing required columns are named", () => {
+  const file = writeWorkbook("missing.xlsx", [
+    ["Brand", "Model", "Price"],
+    ["BYD", "Seal", "169,900"],
+  ]);
+  assert.throws(() => parseExcelFile(file), /missing required columns: .*variant/i);
+});
+
+test("an explicit column mapping wins and misspelt headers still match", () => {
+  const file = writeWorkbook("mapping.xlsx", [
+    ["Brand", "Modle", "Edition", "Price"],
+    ["Kia", "EV6", "GT-Line", "219,900"],
+  ]);
+  const { entries, sheets } = parseExcelFile(file, {
+    columnMapping: { variant: "Edition" },
+  });
+
+  assert.equal(sheets[0].columns.variant?.matchedBy, "mapping");
+  assert.equal(sheets[0].columns.model?.matchedBy, "fuzzy");
+  assert.equal(entries[0].model, "EV6");
+  assert.equal(entries[0].variant, "GT-Line");
+  assert.deepEqual(entries[0].specs, {});
+});
+
+test("a mapping to a header the sheet lacks is reported", () => {
+  const file = writeWorkbook("bad-mapping.xlsx", [
+    ["Brand", "Model", "Variant", "Price"],
+    ["Kia", "EV6", "GT-Line", "219,900"],
+  ]);
+  assert.throws(
+    () => parseExcelFile(file, { columnMapping: { variant: "Edition" } }),
+    /variant \(mapped to "Edition", which is not in the sheet\)/
+  );
+});
+
+test("a merged group label spans its columns and rows keep their sheet numbers", () => {
+  const workbook = XLSX.utils.book_new();
+  const sheet = XLSX.utils.aoa_to_sheet([
+    ["", "", "", "", "Performance", ""],
+    ["Brand", "Model", "Variant", "Price", "Power (hp)", "Torque (Nm)"],
+    ["Kia", "EV6", "Light", "159,900", "225", "350"],
+    [],
+    ["Kia", "EV6", "GT-Line AWD", "219,900", "325", "605"],
+  ]);
+  sheet["!merges"] = [XLSX.utils.decode_range("E1:F1")];
+  XLSX.utils.book_append_sheet(workbook, sheet, "Cars");
+  const file = path.join(tmpDir, "merged.xlsx");
+  XLSX.writeFile(workbook, file);
+
+  const { entries, sheets } = parseExcelFile(file);
+  assert.equal(sheets[0].headerRow, 2);
+  assert.deepEqual(sheets[0].groupRows, [1]);
+  assert.deepEqual(
+    entries.map((e) => e.rowNumber),
+    [3, 5]
+  );
+  assert.equal(entries[1].specs["performance_torque_(nm)"], "605");
+});
+
+test("an explicit header row overrides detection", () => {
+  const file = writeWorkbook("header-row.xlsx", [
+    ["Brand", "Model", "Variant", "Price"],
+    ["Brand", "Model", "Variant", "Price"],
+    ["Kia", "EV6", "Light", "159,900"],
+  ]);
+  // Detection takes the lowest of stacked header-like rows
+  assert.equal(parseExcelFile(file).sheets[0].headerRow, 2);
+
+  const { entries, sheets } = parseExcelFile(file, { headerRow: 1 });
+  assert.equal(sheets[0].headerRow, 1);
+  assert.equal(entries[0].brand, "Brand");
+  assert.throws(() => parseExcelFile(file, { headerRow: 9 }), /outside the sheet/);
+});
+
+test("all-sheets mode tags rows with their sheet and skips sheets without the columns", () => {
+  const workbook = XLSX.utils.book_new();
+  const sheets: Record<string, unknown[][]> = {
+    Sedans: [
+      ["Brand", "Model", "Variant", "Price"],
+      ["Tesla", "Model 3", "Long Range", "189,900"],
+    ],
+    Notes: [["Prices checked against dealer lists"]],
+    SUVs: [
+      ["Brand", "Model", "Variant", "Price"],
+      ["Kia", "EV9", "Land", "329,900"],
+    ],
+  };
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+  const file = path.join(tmpDir, "sheets.xlsx");
+  XLSX.writeFile(workbook, file);
+
+  const result = parseExcelFile(file, { allSheets: true });
+  assert.deepEqual(
+    result.entries.map((e) => [e.sheetName, e.model]),
+    [
+      ["Sedans", "Model 3"],
+      ["SUVs", "EV9"],
+    ]
+  );
+  assert.deepEqual(
+    result.skippedSheets.map((s) => s.sheetName),
+    ["Notes"]
+  );
+  assert.equal(parseExcelFile(file, { sheetName: "SUVs" }).entries[0].model, "EV9");
+});
+
+test("CSV cells are read as written", () => {
+  const file = path.join(tmpDir, "cars.csv");
+  fs.writeFileSync(
+    file,
+    "Brand,Model,Variant,Price,Launch,Warranty\nBYD,Seal,Premium,\"169,900\",07/2025,6 yrs\n"
+  );
+  const [entry] = parseExcelFile(file).entries;
+  assert.equal(entry.price, "169,900");
+  assert.deepEqual(entry.specs, { launch: "07/2025", warranty: "6 yrs" });
+});
+
+test("JSON input is an array of row objects in one sheet named after the file", () => {
+  const file = path.join(tmpDir, "evs.json");
+  fs.writeFileSync(
+    file,
+    JSON.stringify([{ Brand: "MG", Model: "4 EV", Variant: "Comfort", Price: "114,900", Seats: 5 }])
+  );
+  const { entries, sheets } = parseExcelFile(file);
+  assert.equal(sheets[0].sheetName, "evs");
+  assert.equal(entries[0].rowNumber, 2);
+  assert.equal(entries[0].specs.seats, "5");
+
+  fs.writeFileSync(file, JSON.stringify({ Brand: "MG" }));
+  assert.throws(() => parseExcelFile(file), /Failed to read JSON file.*array of row objects/);
+});
+
+test("ODS workbooks parse like xlsx", () => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet([
+      ["Brand", "Model", "Variant", "Price"],
+      ["Hyundai", "Ioniq 5", "Long Range", "189,900"],
+    ]),
+    "Cars"
+  );
+  const file = path.join(tmpDir, "cars.ods");
+  XLSX.writeFile(workbook, file, { bookType: "ods" });
+  assert.equal(parseExcelFile(file).entries[0].variant, "Long Range");
+});
+
+test("source URLs go to the site of their host, and bad ones are warnings", () => {
+  const file = writeWorkbook("urls.xlsx", [
+    ["Brand", "Model", "Variant", "Price", "YallaMotor URL", "Source URL"],
+    ["Kia", "EV6", "Light", "159,900", "https://www.dubicars.com/new-cars/kia/ev6", "https://www.drivearabia.com/carprices/uae/kia/kia-ev6/"],
+    ["Kia", "EV6", "GT-Line", "189,900", "see dealer", "https://example.com/kia-ev6"],
+  ]);
+  const { entries, sheets, warnings } = parseExcelFile(file);
+
+  assert.deepEqual(sheets[0].urlColumns, [
+    { header: "YallaMotor URL", site: "yallamotor" },
+    { header: "Source URL" },
+  ]);
+  assert.deepEqual(entries[0].sourceUrls, {
+    dubicars: "https://www.dubicars.com/new-cars/kia/ev6",
+    drivearabia: "https://www.drivearabia.com/carprices/uae/kia/kia-ev6/",
+  });
+  assert.equal(entries[1].sourceUrls, undefined);
+  assert.deepEqual(
+    warnings.map((w) => [w.rowNumber, w.code, w.field]),
+    [
+      [3, "invalid_url", "YallaMotor URL"],
+      [3, "unknown_site", "Source URL"],
+    ]
+  );
+});
@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  convertCurrency,
+  describePrice,
+  detectCurrency,
+  isComparablePrice,
+  loadExchangeRates,
+  parsePrice,
+} from "../price-parser.js";
+
+test("list price with a currency code", () => {
+  const price = parsePrice("AED 149,900");
+  assert.equal(price.kind, "list");
+  assert.equal(price.currency, "AED");
+  assert.deepEqual(price.amounts, [149900]);
+});
+
+test("range shares the lower end's currency", () => {
+  const price = parsePrice("AED 149,900 - 179,900");
+  assert.equal(price.currency, "AED");
+  assert.deepEqual(price.amounts, [149900, 179900]);
+});
+
+test("starting-from price with VAT note", () => {
+  const price = parsePrice("Starting from AED 149,900 (incl. VAT)");
+  assert.equal(price.kind, "starting_from");
+  assert.deepEqual(price.amounts, [149900]);
+  assert.equal(price.vatIncluded, true);
+  assert.ok(isComparablePrice(price));
+  assert.equal(describePrice(price), "starting from AED 149,900, incl. VAT");
+});
+
+test("VAT exclusions and local currency spellings are recognised", () => {
+  const price = parsePrice("Dhs. 189,900 + VAT");
+  assert.equal(price.currency, "AED");
+  assert.equal(price.vatIncluded, false);
+  assert.equal(detectCurrency("Starting Price (SAR)"), "SAR");
+  assert.equal(detectCurrency("Price"), undefined);
+});
+
+test("a lump sum next to an instalment is the price", () => {
+  const price = parsePrice("AED 149,900 or AED 2,499/month");
+  assert.equal(price.kind, "list");
+  assert.deepEqual(price.amounts, [149900]);
+});
+
+test("monthly instalments are not comparable", () => {
+  const price = parsePrice("AED 1,999/month");
+  assert.equal(price.kind, "monthly");
+  assert.equal(isComparablePrice(price), false);
+});
+
+test("a model year is not taken as the price", () => {
+  assert.deepEqual(parsePrice("2025 Tesla: 149,990").amounts, [149990]);
+});
+
+test("currency conversion through the base currency", () => {
+  const rates = { asOf: "2026-01-01", base: "AED", rates: { AED: 1, USD: 3.6725 } };
+  assert.equal(convertCurrency(100, "AED", "AED", rates), 100);
+  assert.ok(Math.abs(convertCurrency(100, "USD", "AED", rates)! - 367.25) < 1e-9);
+  assert.equal(convertCurrency(100, "GBP", "AED", rates), null);
+});
+
+test("conversion between two foreign currencies goes through the base", () => {
+  const rates = { asOf: "2026-01-01", base: "AED", rates: { AED: 1, USD: 3.6725, SAR: 0.9793 } };
+  const usd = convertCurrency(100_000, "SAR", "USD", rates)!;
+  assert.ok(Math.abs(usd - (100_000 * 0.9793) / 3.6725) < 1e-6);
+});
+
+test("the rate table keeps its base at 1", () => {
+  const rates = loadExchangeRates();
+  assert.equal(rates.base, "AED");
+  assert.equal(rates.rates.AED, 1);
+  assert.ok(rates.rates.USD > 0);
+});
@@ -0,0 +1,73 @@
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import XLSX from "xlsx";
+import { saveExcelReport } from "../report-writer.js";
+import type { ComparisonResult } from "../comparator.js";
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "report-writer-test-"));
+after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+function comparison(sheetName: string, rowNumber: number, car: string): ComparisonResult {
+  return {
+    sheetName,
+    rowNumber,
+    car,
+    fields: {},
+    variantCheck: { excel: "", foundOnSites: [], notFoundOnSites: [], status: "missing" },
+  };
+}
+
+test("annotations go back to the sheet and row each result came from", () => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet([
+      ["Brand", "Model", "Variant", "Price"],
+      ["Tesla", "Model 3", "Long Range", "189,900"],
+    ]),
+    "Sedans"
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet([
+      ["SUV prices"],
+      ["Brand", "Model", "Variant", "Price"],
+      ["Kia", "EV9", "Land", "329,900"],
+    ]),
+    "SUVs"
+  );
+  const input = path.join(tmpDir, "cars.xlsx");
+  XLSX.writeFile(workbook, input);
+
+  const output = saveExcelReport(
+    [comparison("SUVs", 3, "Kia EV9 Land"), comparison("Sedans", 2, "Tesla Model 3 Long Range")],
+    input,
+    path.join(tmpDir, "out"),
+    { Sedans: 1, SUVs: 2 }
+  );
+  const written = XLSX.readFile(output);
+  const cell = (sheet: string, address: string) => written.Sheets[sheet][address]?.v;
+
+  assert.equal(cell("Sedans", "E1"), "Variant_Status");
+  assert.equal(cell("Sedans", "E2"), "missing");
+  assert.equal(cell("SUVs", "E1"), undefined);
+  assert.equal(cell("SUVs", "E2"), "Variant_Status");
+  assert.equal(cell("SUVs", "E3"), "missing");
+});
+
+test("a JSON input gets a JSON report with the annotation columns added", () => {
+  const input = path.join(tmpDir, "evs.json");
+  fs.writeFileSync(
+    input,
+    JSON.stringify([{ Brand: "MG", Model: "4 EV", Variant: "Comfort", Price: "114,900" }])
+  );
+  const output = saveExcelReport([comparison("evs", 2, "MG 4 EV Comfort")], input, path.join(tmpDir, "json-out"));
+
+  assert.equal(path.basename(output), "ev-data-verified.json");
+  const [row] = JSON.parse(fs.readFileSync(output, "utf-8"));
+  assert.equal(row.Brand, "MG");
+  assert.equal(row.Variant_Status, "missing");
+});
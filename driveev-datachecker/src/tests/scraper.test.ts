@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { extractFromHtml, type SiteConfig } from "../scraper.js";
+
+const trimTable: SiteConfig = {
+  name: "Test",
+  baseUrl: "https://example.com",
+  selectors: { title: "h1" },
+  trims: {
+    row: "table.trims tbody tr",
+    name: "td:first-child",
+    price: "td:nth-child(2)",
+    specs: { range: "td:nth-child(3)", horsepower: "td:nth-child(4)" },
+  },
+};
+
+test("each trim row gives its own name, price and specs", () => {
+  const { data } = extractFromHtml(
+    `<h1>Hyundai Ioniq 5</h1>
+     <table class="trims"><tbody>
+       <tr><td>Standard Range</td><td>AED 164,900</td><td>440 km</td><td></td></tr>
+       <tr><td>Long Range AWD</td><td>AED 214,900</td><td>470 km</td><td>325 hp</td></tr>
+       <tr><td></td><td>AED 999</td><td></td><td></td></tr>
+     </tbody></table>`,
+    trimTable
+  );
+  assert.deepEqual(data.trims, [
+    { name: "Standard Range", price: "AED 164,900", specs: { range: "440 km" } },
+    { name: "Long Range AWD", price: "AED 214,900", specs: { range: "470 km", horsepower: "325 hp" } },
+  ]);
+});
+
+test("sites without trim selectors have no trims", () => {
+  const { data } = extractFromHtml("<h1>Kia EV6</h1>", { ...trimTable, trims: undefined });
+  assert.equal(data.title, "Kia EV6");
+  assert.equal(data.trims, undefined);
+});
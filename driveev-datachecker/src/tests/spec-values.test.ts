@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  formatSpecValue,
+  parseSpecs,
+  parseSpecValue,
+  toCanonicalUnit,
+} from "../spec-values.js";
+
+test("numbers carry their unit, or the column's when they have none", () => {
+  assert.deepEqual(parseSpecValue("75.0kWh"), { kind: "number", raw: "75.0kWh", value: 75, unit: "kWh" });
+  assert.deepEqual(parseSpecValue("75", "kWh"), { kind: "number", raw: "75", value: 75, unit: "kWh" });
+  assert.deepEqual(parseSpecValue("300 kW (402 hp)"), {
+    kind: "number",
+    raw: "300 kW (402 hp)",
+    value: 300,
+    unit: "kW",
+  });
+});
+
+test("ranges, durations, booleans and synonyms get their own kinds", () => {
+  assert.deepEqual(parseSpecValue("440 - 507 km"), {
+    kind: "range",
+    raw: "440 - 507 km",
+    min: 440,
+    max: 507,
+    unit: "km",
+  });
+  assert.deepEqual(parseSpecValue("8 years or 160,000 km"), {
+    kind: "duration",
+    raw: "8 years or 160,000 km",
+    years: 8,
+    distanceKm: 160000,
+  });
+  assert.deepEqual(parseSpecValue("5", "years"), { kind: "duration", raw: "5", years: 5 });
+  assert.deepEqual(parseSpecValue("Standard"), { kind: "boolean", raw: "Standard", value: true });
+  assert.deepEqual(parseSpecValue("All-Wheel Drive"), { kind: "enum", raw: "All-Wheel Drive", value: "awd" });
+  assert.deepEqual(parseSpecValue("Panoramic roof"), { kind: "text", raw: "Panoramic roof", value: "panoramic roof" });
+});
+
+test("spec maps take each key's unit and format back to short text", () => {
+  const typed = parseSpecs({ "battery_(kwh)": "82.5", range: "510", "warranty_(years)": "6" });
+  assert.deepEqual(
+    Object.fromEntries(Object.entries(typed).map(([k, v]) => [k, formatSpecValue(v)])),
+    { "battery_(kwh)": "82.5 kWh", range: "510 km", "warranty_(years)": "6 yrs" }
+  );
+});
+
+test("units convert to the canonical unit of their quantity", () => {
+  const round = (c: ReturnType<typeof toCanonicalUnit>) =>
+    c && { ...c, value: Math.round(c.value * 10) / 10 };
+  assert.deepEqual(round(toCanonicalUnit(204, "PS")), { value: 150, unit: "kW", quantity: "power" });
+  assert.deepEqual(round(toCanonicalUnit(258, "lb-ft")), { value: 349.8, unit: "Nm", quantity: "torque" });
+  assert.deepEqual(round(toCanonicalUnit(125, "mph")), { value: 201.2, unit: "km/h", quantity: "speed" });
+  assert.equal(toCanonicalUnit(5, "years"), undefined);
+});
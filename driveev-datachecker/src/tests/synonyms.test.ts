@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { addSynonym, findSynonymGroup } from "../synonyms.js";
+
+test("field labels match their group however they are spelt", () => {
+  assert.equal(findSynonymGroup("fields", "Battery Capacity")?.[0], "battery_(kwh)");
+  assert.equal(findSynonymGroup("fields", "seating-capacity")?.[0], "seats");
+  assert.equal(findSynonymGroup("fields", "sunroof"), undefined);
+});
+
+test("values match only on case and surrounding space", () => {
+  assert.equal(findSynonymGroup("values", " Rear-Wheel Drive ")?.[0], "rwd");
+  assert.equal(findSynonymGroup("values", "rear-wheel-drive"), undefined);
+});
+
+// Neither call below writes the file: one clashes, the other is a no-op
+test("a spelling already in another group is refused", () => {
+  assert.throws(
+    () => addSynonym("fields", "seats", "battery"),
+    /"battery" is already in the "battery_\(kwh\)" group/
+  );
+});
+
+test("a spelling the group already has is not added again", () => {
+  const { added, group } = addSynonym("values", "RWD", "rear wheel drive");
+  assert.equal(added, false);
+  assert.equal(group[0], "rwd");
+});
@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validateEntries } from "../validator.js";
+import type { ExcelEntry } from "../excel-parser.js";
+
+function row(
+  rowNumber: number,
+  variant: string,
+  price: string,
+  specs: Record<string, string> = {}
+): ExcelEntry {
+  return { sheetName: "Cars", rowNumber, brand: "BYD", model: "Seal", variant, price, specs };
+}
+
+test("empty required fields and duplicate rows are reported", () => {
+  const warnings = validateEntries([
+    row(2, "Premium", "169,900"),
+    row(3, "", "149,900"),
+    row(4, "premium ", "169,900"),
+  ]);
+  assert.deepEqual(
+    warnings.map((w) => [w.rowNumber, w.code, w.field]),
+    [
+      [3, "empty_required", "variant"],
+      [4, "duplicate_row", "variant"],
+    ]
+  );
+  assert.match(warnings[1].message, /Duplicate of row 2 of "Cars"/);
+});
+
+test("text in a numeric column and implausible values are reported in row order", () => {
+  const warnings = validateEntries([
+    row(2, "Dynamic", "149,900", { "battery_(kwh)": "TBC", seats: "5" }),
+    row(3, "Premium", "AED 1,699", { "battery_(kwh)": "82.5", seats: "5" }),
+    row(4, "Performance", "189,900", { "battery_(kwh)": "825", seats: "5" }),
+  ]);
+  assert.deepEqual(
+    warnings.map((w) => [w.rowNumber, w.code, w.field, w.value]),
+    [
+      [2, "non_numeric", "battery_(kwh)", "TBC"],
+      [3, "out_of_range", "price", "AED 1,699"],
+      [4, "out_of_range", "battery_(kwh)", "825"],
+    ]
+  );
+});
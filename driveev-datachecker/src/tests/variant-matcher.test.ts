@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { loadVariantAliases, matchVariant } from "../variant-matcher.js";
+
+const tesla = { brand: "Tesla", model: "Model 3" };
+const noAliases: Record<string, string[]> = {};
+
+test("brand and model words are ignored", () => {
+  const match = matchVariant(
+    "Long Range",
+    ["Tesla Model 3 Rear-Wheel Drive", "Tesla Model 3 Long Range"],
+    tesla,
+    noAliases
+  );
+  assert.equal(match?.variant, "Tesla Model 3 Long Range");
+  assert.equal(match?.matched, true);
+});
+
+test("closest variant below the threshold is not a match", () => {
+  const match = matchVariant("Performance", ["Standard Range"], tesla, noAliases);
+  assert.equal(match?.variant, "Standard Range");
+  assert.equal(match?.matched, false);
+});
+
+test("aliases join different spellings", () => {
+  const match = matchVariant("LR AWD", ["Long Range AWD", "Performance"], tesla, {
+    "long range": ["lr"],
+  });
+  assert.equal(match?.variant, "Long Range AWD");
+  assert.equal(match?.matched, true);
+});
+
+test("no site variants gives no match", () => {
+  assert.equal(matchVariant("Long Range", [], tesla, noAliases), null);
+});
+
+test("different drivetrains don't match", () => {
+  const match = matchVariant("Long Range AWD", ["Long Range RWD"], tesla, noAliases);
+  assert.equal(match?.matched, false);
+});
+
+test("a drivetrain-only name matches a variant with that drivetrain", () => {
+  const match = matchVariant(
+    "AWD",
+    ["Long Range Dual Motor", "Rear-Wheel Drive"],
+    tesla,
+    loadVariantAliases()
+  );
+  assert.equal(match?.variant, "Long Range Dual Motor");
+  assert.equal(match?.matched, true);
+  assert.ok((match?.score ?? 1) < 1);
+});
+
+test("model years are ignored", () => {
+  const match = matchVariant("Performance 2025", ["MY24 Performance"], tesla, noAliases);
+  assert.equal(match?.score, 1);
+});
@@ -0,0 +1,233 @@
+import type { ExcelEntry } from "./excel-parser.js";
+
+export interface ValidationWarning {
+  sheetName?: string;
+  rowNumber: number;
+  field: string;
+  code:
+    | "empty_required"
+    | "duplicate_row"
+    | "non_numeric"
+    | "out_of_range"
+    | "invalid_url"
+    | "unknown_site";
+  message: string;
+  value?: string;
+}
+
+/**
+ * Plausible value ranges for common EV spec columns. A column matches when
+ * `match` returns true for the words in its key, e.g. "battery_(kwh)" →
+ * ["battery", "kwh"].
+ */
+const PLAUSIBLE_RANGES: Array<{
+  label: string;
+  match: (words: string[]) => boolean;
+  min: number;
+  max: number;
+}> = [
+  {
+    label: "battery capacity (kWh)",
+    match: (w) =>
+      w.includes("battery") &&
+      !w.includes("warranty") &&
+      (w.includes("kwh") || w.includes("capacity") || w.includes("size") || w.length === 1),
+    min: 10,
+    max: 250,
+  },
+  {
+    label: "range (km)",
+    match: (w) => w.includes("range") && !w.includes("price"),
+    min: 50,
+    max: 1200,
+  },
+  {
+    label: "0-100 km/h (s)",
+    match: (w) => w.includes("acceleration") || (w.includes("0") && w.includes("100")),
+    min: 1.5,
+    max: 25,
+  },
+  {
+    label: "top speed (km/h)",
+    match: (w) => w.includes("top") && w.includes("speed"),
+    min: 80,
+    max: 420,
+  },
+  {
+    label: "AC charging (kW)",
+    match: (w) => w.includes("charging") && w.includes("ac"),
+    min: 2,
+    max: 43,
+  },
+  {
+    label: "DC charging (kW)",
+    match: (w) => w.includes("charging") && w.includes("dc"),
+    min: 20,
+    max: 500,
+  },
+  {
+    label: "energy consumption (kWh/100km)",
+    match: (w) => w.includes("consumption"),
+    min: 8,
+    max: 40,
+  },
+  {
+    label: "seats",
+    match: (w) => w.includes("seats") || w.includes("seating"),
+    min: 1,
+    max: 9,
+  },
+];
+
+const PRICE_RANGE = { min: 10_000, max: 10_000_000 };
+
+// Units in a header that mark a column as numeric, e.g. "Battery (kWh)"
+const NUMERIC_HEADER_UNIT =
+  /\((?:[^)]*\b(?:kwh|kw|km|km\/h|kmh|mph|s|sec|hp|bhp|ps|nm|kg|mm|l|litres?|years?|yrs?|aed|usd|sar|eur|%)\b[^)]*)\)/i;
+
+// Share of filled cells that must be numbers before a column without a unit
+// in its header is treated as numeric
+const NUMERIC_COLUMN_SHARE = 0.8;
+const MIN_VALUES_FOR_SHARE = 3;
+
+function keyWords(key: string): string[] {
+  return key.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Read the leading number of a cell ("174,000", "75 kWh", "7.5s").
+ * Returns null for text such as "TBC", "N/A" or "-".
+ */
+function leadingNumber(value: string): number | null {
+  const match = value.trim().match(/^[-+]?\d{1,3}(?:,\d{3})+(?:\.\d+)?|^[-+]?\d+(?:\.\d+)?/);
+  if (!match) return null;
+  const n = parseFloat(match[0].replace(/,/g, ""));
+  return isNaN(n) ? null : n;
+}
+
+function isNumericColumn(key: string, values: string[]): boolean {
+  if (NUMERIC_HEADER_UNIT.test(key)) return true;
+  if (values.length < MIN_VALUES_FOR_SHARE) return false;
+  const numeric = values.filter((v) => leadingNumber(v) !== null).length;
+  return numeric / values.length >= NUMERIC_COLUMN_SHARE;
+}
+
+function location(entry: Pick<ExcelEntry, "sheetName" | "rowNumber">): string {
+  return entry.sheetName
+    ? `row ${entry.rowNumber} of "${entry.sheetName}"`
+    : `row ${entry.rowNumber}`;
+}
+
+/**
+ * Check parsed rows before any scraping: empty brand/model/variant/price,
+ * duplicate brand/model/variant rows, text in numeric columns, and values
+ * outside a plausible range for well-known specs (e.g. a 5 kWh battery).
+ */
+export function validateEntries(entries: ExcelEntry[]): ValidationWarning[] {
+  const warnings: ValidationWarning[] = [];
+  const warn = (
+    entry: ExcelEntry,
+    field: string,
+    code: ValidationWarning["code"],
+    message: string,
+    value?: string
+  ) => {
+    warnings.push({
+      ...(entry.sheetName ? { sheetName: entry.sheetName } : {}),
+      rowNumber: entry.rowNumber,
+      field,
+      code,
+      message,
+      ...(value !== undefined ? { value } : {}),
+    });
+  };
+
+  // --- Required fields and duplicates ---
+  const firstSeen = new Map<string, ExcelEntry>();
+  for (const entry of entries) {
+    for (const field of ["brand", "model", "variant", "price"] as const) {
+      if (!entry[field]) {
+        warn(entry, field, "empty_required", `${field} is empty`);
+      }
+    }
+
+    if (entry.brand && entry.model) {
+      const key = [entry.brand, entry.model, entry.variant]
+        .map((v) => v.toLowerCase().replace(/\s+/g, " ").trim())
+        .join("|");
+      const original = firstSeen.get(key);
+      if (original) {
+        warn(
+          entry,
+          "variant",
+          "duplicate_row",
+          `Duplicate of ${location(original)} (${entry.brand} ${entry.model} ${entry.variant})`.trim()
+        );
+      } else {
+        firstSeen.set(key, entry);
+      }
+    }
+
+    // --- Price ---
+    if (entry.price) {
+      const price = leadingNumber(entry.price.replace(/^[A-Za-z$€£]+\s*/, ""));
+      if (price === null) {
+        warn(entry, "price", "non_numeric", "Price is not a number", entry.price);
+      } else if (price < PRICE_RANGE.min || price > PRICE_RANGE.max) {
+        warn(
+          entry,
+          "price",
+          "out_of_range",
+          `Price ${price.toLocaleString()} is outside the plausible range ${PRICE_RANGE.min.toLocaleString()}-${PRICE_RANGE.max.toLocaleString()}`,
+          entry.price
+        );
+      }
+    }
+  }
+
+  // --- Spec columns ---
+  const valuesByKey = new Map<string, string[]>();
+  for (const entry of entries) {
+    for (const [key, value] of Object.entries(entry.specs)) {
+      const list = valuesByKey.get(key) ?? [];
+      list.push(value);
+      valuesByKey.set(key, list);
+    }
+  }
+
+  for (const [key, values] of valuesByKey) {
+    const numeric = isNumericColumn(key, values);
+    const range = PLAUSIBLE_RANGES.find((r) => r.match(keyWords(key)));
+    if (!numeric && !range) continue;
+
+    for (const entry of entries) {
+      const value = entry.specs[key];
+      if (value === undefined) continue;
+      const n = leadingNumber(value);
+
+      if (n === null) {
+        if (numeric) {
+          warn(entry, key, "non_numeric", `Expected a number in "${key}"`, value);
+        }
+        continue;
+      }
+
+      if (range && (n < range.min || n > range.max)) {
+        warn(
+          entry,
+          key,
+          "out_of_range",
+          `${n} is outside the plausible ${range.label} range ${range.min}-${range.max}`,
+          value
+        );
+      }
+    }
+  }
+
+  // Report in sheet order: required-field checks ran first, spec checks after
+  const order = new Map<string, number>();
+  entries.forEach((e, i) => order.set(`${e.sheetName ?? ""}|${e.rowNumber}`, i));
+  const position = (w: ValidationWarning) =>
+    order.get(`${w.sheetName ?? ""}|${w.rowNumber}`) ?? 0;
+  return warnings.sort((a, b) => position(a) - position(b));
+}
@@ -0,0 +1,161 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export interface VariantMatch {
+  variant: string;
+  score: number;
+  matched: boolean;
+}
+
+const ALIASES_PATH = path.join(__dirname, "..", "config", "variant-aliases.json");
+
+// Similarity a site variant needs to count as the Excel variant
+const VARIANT_MATCH_THRESHOLD = 0.75;
+
+// Score when one side names only a drivetrain ("RWD") and it agrees with the
+// other side's drivetrain: enough to match, but below a full name match
+const DRIVETRAIN_ONLY_SCORE = 0.75;
+
+const DRIVETRAINS = new Set(["rwd", "fwd", "awd"]);
+
+/**
+ * Load the variant alias dictionary: canonical phrase → other spellings,
+ * e.g. "long range" → ["lr", "extended range"]. A missing or broken file
+ * just means no aliases.
+ */
+export function loadVariantAliases(): Record<string, string[]> {
+  if (!fs.existsSync(ALIASES_PATH)) return {};
+  try {
+    const stored = JSON.parse(fs.readFileSync(ALIASES_PATH, "utf-8"));
+    const aliases: Record<string, string[]> = {};
+    for (const [canonical, spellings] of Object.entries(stored)) {
+      if (Array.isArray(spellings)) {
+        aliases[canonical.toLowerCase()] = spellings.map((a) =>
+          String(a).toLowerCase()
+        );
+      }
+    }
+    return aliases;
+  } catch (err) {
+    console.error(`Failed to parse variant aliases "${ALIASES_PATH}":`, err);
+    return {};
+  }
+}
+
+function words(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Turn a variant name into canonical tokens. Alias phrases are replaced by
+ * their canonical phrase (longest first, so "all wheel drive" wins over
+ * "wheel"), model years ("2024", "MY24") and the car's own brand/model words
+ * are dropped, and the drivetrain is split out so it can be compared on its
+ * own.
+ */
+function tokenizeVariant(
+  variant: string,
+  aliases: Record<string, string[]>,
+  ignoreWords: Set<string>
+): { tokens: Set<string>; drivetrain?: string } {
+  const phrases: Array<{ words: string[]; canonical: string }> = [];
+  for (const [canonical, spellings] of Object.entries(aliases)) {
+    for (const phrase of [canonical, ...spellings]) {
+      phrases.push({ words: words(phrase), canonical });
+    }
+  }
+  phrases.sort((a, b) => b.words.length - a.words.length);
+
+  const input = words(variant);
+  const tokens = new Set<string>();
+  let drivetrain: string | undefined;
+
+  for (let i = 0; i < input.length; ) {
+    const phrase = phrases.find(
+      (p) =>
+        p.words.length > 0 &&
+        p.words.every((word, offset) => input[i + offset] === word)
+    );
+    const token = phrase ? phrase.canonical : input[i];
+    i += phrase ? phrase.words.length : 1;
+
+    if (/^(?:19|20)\d{2}$/.test(token) || /^my\d{2}$/.test(token)) continue;
+    if (ignoreWords.has(token)) continue;
+    if (DRIVETRAINS.has(token)) {
+      drivetrain = token;
+      continue;
+    }
+    tokens.add(token);
+  }
+
+  return { tokens, drivetrain };
+}
+
+/**
+ * Similarity of two variant names between 0 and 1: the Dice coefficient of
+ * their canonical tokens, halved when both name a drivetrain and they differ.
+ * A drivetrain named on only one side is ignored, so "Long Range" matches
+ * "Long Range AWD" but "Long Range AWD" does not match "Long Range RWD".
+ */
+function variantSimilarity(
+  a: string,
+  b: string,
+  aliases: Record<string, string[]> = loadVariantAliases(),
+  ignoreWords: Set<string> = new Set()
+): number {
+  const left = tokenizeVariant(a, aliases, ignoreWords);
+  const right = tokenizeVariant(b, aliases, ignoreWords);
+
+  const sameDrivetrain =
+    !!left.drivetrain && left.drivetrain === right.drivetrain;
+  const drivetrainConflict =
+    !!left.drivetrain && !!right.drivetrain && !sameDrivetrain;
+
+  let score: number;
+  if (left.tokens.size === 0 && right.tokens.size === 0) {
+    score = left.drivetrain || right.drivetrain ? (drivetrainConflict ? 0 : 1) : 0;
+  } else if (left.tokens.size === 0 || right.tokens.size === 0) {
+    score = sameDrivetrain ? DRIVETRAIN_ONLY_SCORE : 0;
+  } else {
+    let shared = 0;
+    for (const token of left.tokens) {
+      if (right.tokens.has(token)) shared++;
+    }
+    score = (2 * shared) / (left.tokens.size + right.tokens.size);
+  }
+
+  if (drivetrainConflict) score /= 2;
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Pick the site variant closest to the Excel variant. Words of the car's
+ * brand and model are ignored so "Model 3 Long Range" compares as
+ * "Long Range". Returns null when the site lists no variants; otherwise the
+ * best candidate, with `matched` set when it clears the threshold.
+ */
+export function matchVariant(
+  excelVariant: string,
+  siteVariants: string[],
+  car: { brand: string; model: string },
+  aliases: Record<string, string[]> = loadVariantAliases()
+): VariantMatch | null {
+  if (siteVariants.length === 0) return null;
+
+  const ignoreWords = new Set([...words(car.brand), ...words(car.model)]);
+  let best: VariantMatch | null = null;
+  for (const variant of siteVariants) {
+    const score = variantSimilarity(excelVariant, variant, aliases, ignoreWords);
+    if (!best || score > best.score) {
+      best = { variant, score, matched: score >= VARIANT_MATCH_THRESHOLD };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,349 @@
+import {
+  parseExcelFile,
+  type ExcelEntry,
+  type ColumnMapping,
+  type ParsedWorkbook,
+} from "./excel-parser.js";
+import {
+  scrapeEvData,
+  requireSiteConfig,
+  buildSiteUrl,
+  type ScrapedData,
+  type SiteConfig,
+} from "./scraper.js";
+import {
+  compareEntry,
+  loadComparisonRules,
+  type ComparisonResult,
+} from "./comparator.js";
+import { loadExchangeRates } from "./price-parser.js";
+import type { CacheSettings } from "./page-cache.js";
+import { saveExcelReport, saveMarkdownReport } from "./report-writer.js";
+
+export interface VerifyWorkbookOptions {
+  filePath: string;
+  sites: string[];
+  outputDir: string;
+  sheetName?: string;
+  allSheets?: boolean;
+  headerRow?: number;
+  columnMapping?: ColumnMapping;
+  concurrency?: number;
+  // Overrides config/cache.json, e.g. { mode: "offline" }
+  cache?: Partial<CacheSettings>;
+}
+
+export interface VerificationSummary {
+  totalEntries: number;
+  sheets: ParsedWorkbook["sheets"];
+  skippedSheets: ParsedWorkbook["skippedSheets"];
+  validationWarnings: number; // see parse_excel for the details
+  sitesChecked: string[];
+  skippedSites: Array<{ site: string; reason: string }>;
+  fields: {
+    match: number;
+    within_tolerance: number;
+    mismatch: number;
+    missing: number;
+  };
+  variants: { match: number; partial: number; missing: number };
+  // Fields the sites list that rows leave blank, and variants on several
+  // sites that no row covers (each variant counted once per car)
+  coverageGaps: { fields: number; variants: number };
+  entriesWithIssues: number;
+  scrapeFailures: Array<{ site: string; url: string; car: string }>;
+  // Rows a site was not checked for: no row URL and no urlTemplate
+  noUrl: Array<{ site: string; rowNumber: number; car: string }>;
+  rowUrlsUsed: number;
+  // Scrapes served from the page cache instead of the network
+  fromCache: number;
+  resolvedBySearch: Array<{
+    site: string;
+    car: string;
+    templateUrl: string;
+    picked: string;
+  }>;
+  excelReport: string;
+  markdownReport: string;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+
+/**
+ * Run `worker` over `items` with at most `limit` calls in flight.
+ * Results keep the order of `items`.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const runners = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    run
+  );
+  await Promise.all(runners);
+  return results;
+}
+
+function isEmptyScrape(data: ScrapedData): boolean {
+  return (
+    !data.data.title &&
+    !data.data.price &&
+    Object.keys(data.data.specs).length === 0 &&
+    data.data.variants.length === 0
+  );
+}
+
+/**
+ * End-to-end verification of a workbook: parse → scrape → compare → report.
+ *
+ * Rows that resolve to the same page on a site reuse one scrape, so when a
+ * site's URL template only has {brand} and {model}, a sheet with several
+ * variants of one car hits that site once; a template with {variant} gives
+ * each variant its own page and scrape. Only the summary and the
+ * report paths are returned; the full comparisons live in the reports.
+ */
+export async function verifyWorkbook(
+  options: VerifyWorkbookOptions
+): Promise<VerificationSummary> {
+  const { filePath, outputDir, sheetName, columnMapping } = options;
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+
+  const { entries, sheets, skippedSheets, warnings } = parseExcelFile(filePath, {
+    sheetName,
+    allSheets: options.allSheets,
+    headerRow: options.headerRow,
+    columnMapping,
+  });
+
+  // Resolve site configs up front so a typo fails before any scraping
+  const configs: Record<string, SiteConfig> = {};
+  const skippedSites: VerificationSummary["skippedSites"] = [];
+  for (const site of options.sites) {
+    const config = requireSiteConfig(site);
+    if (config.disabled) {
+      skippedSites.push({
+        site,
+        reason: config.disabledReason || "no reason given",
+      });
+      continue;
+    }
+    // Without a template the site can only be checked from row URLs
+    if (!config.urlTemplate && !entries.some((e) => e.sourceUrls?.[site])) {
+      skippedSites.push({
+        site,
+        reason: "no urlTemplate configured and no row has a URL for it",
+      });
+      continue;
+    }
+    configs[site] = config;
+  }
+  const sitesChecked = Object.keys(configs);
+
+  // One scrape per (site, url), shared across the rows that resolve to it
+  const scrapeCache = new Map<string, Promise<ScrapedData>>();
+  const scrapeFailures: VerificationSummary["scrapeFailures"] = [];
+
+  const scrapeOnce = (
+    site: string,
+    entry: ExcelEntry,
+    url: string,
+    fromRow: boolean
+  ): Promise<ScrapedData> => {
+    const cacheKey = `${site} ${url}`;
+    let pending = scrapeCache.get(cacheKey);
+    if (!pending) {
+      // Row URLs are scraped as given; templated ones go through the scraper
+      // again so it can fall back to site search if the page 404s
+      pending = scrapeEvData(
+        fromRow ? url : undefined,
+        site,
+        entry.brand,
+        entry.model,
+        entry.variant,
+        options.cache
+      ).catch(
+        (err): ScrapedData => {
+          console.error(
+            `[verifier] Scrape failed for ${url}:`,
+            err instanceof Error ? err.message : err
+          );
+          return {
+            source: site,
+            url,
+            data: { title: "", price: "", specs: {}, variants: [] },
+            rawText: "",
+            strategy: "none",
+          };
+        }
+      );
+      scrapeCache.set(cacheKey, pending);
+    }
+    return pending;
+  };
+
+  // A URL from the row beats guessing one from the site's template
+  const noUrl: VerificationSummary["noUrl"] = [];
+  const tasks = entries.flatMap((entry, entryIndex) =>
+    sitesChecked.flatMap((site) => {
+      const rowUrl = entry.sourceUrls?.[site];
+      const url = rowUrl ?? buildSiteUrl(configs[site], entry);
+      if (!url) {
+        noUrl.push({
+          site,
+          rowNumber: entry.rowNumber,
+          car: `${entry.brand} ${entry.model}`.trim(),
+        });
+        return [];
+      }
+      return [{ entry, entryIndex, site, url, fromRow: Boolean(rowUrl) }];
+    })
+  );
+  const scraped = await mapWithConcurrency(
+    tasks,
+    concurrency,
+    ({ entry, site, url, fromRow }) => scrapeOnce(site, entry, url, fromRow)
+  );
+
+  // Keyed by entry index: row numbers repeat across sheets
+  const scrapedByEntry = new Map<number, ScrapedData[]>();
+  const reportedFailures = new Set<string>();
+  const resolvedBySearch: VerificationSummary["resolvedBySearch"] = [];
+  const reportedResolutions = new Set<string>();
+  tasks.forEach(({ entry, entryIndex, site }, i) => {
+    const data = scraped[i];
+    const list = scrapedByEntry.get(entryIndex) ?? [];
+    list.push(data);
+    scrapedByEntry.set(entryIndex, list);
+
+    if (isEmptyScrape(data) && !reportedFailures.has(`${site} ${data.url}`)) {
+      reportedFailures.add(`${site} ${data.url}`);
+      scrapeFailures.push({
+        site,
+        url: data.url,
+        car: `${entry.brand} ${entry.model}`.trim(),
+      });
+    }
+
+    const resolution = data.urlResolution;
+    if (
+      resolution?.method === "search" &&
+      resolution.templateUrl &&
+      resolution.picked &&
+      !reportedResolutions.has(`${site} ${resolution.picked}`)
+    ) {
+      reportedResolutions.add(`${site} ${resolution.picked}`);
+      resolvedBySearch.push({
+        site,
+        car: `${entry.brand} ${entry.model}`.trim(),
+        templateUrl: resolution.templateUrl,
+        picked: resolution.picked,
+      });
+    }
+  });
+
+  const rules = loadComparisonRules();
+  const rates = loadExchangeRates();
+  // Every variant the sheet has per car, so a variant on another row isn't
+  // reported as missing
+  const carKey = (e: ExcelEntry) => `${e.brand}|${e.model}`.toLowerCase();
+  const variantsByCar = new Map<string, string[]>();
+  for (const entry of entries) {
+    const list = variantsByCar.get(carKey(entry)) ?? [];
+    list.push(entry.variant);
+    variantsByCar.set(carKey(entry), list);
+  }
+  const comparisons: ComparisonResult[] = entries.map((entry, entryIndex) =>
+    compareEntry(
+      entry,
+      (scrapedByEntry.get(entryIndex) ?? []).map((s) => ({
+        source: s.source,
+        price: s.data.price,
+        specs: s.data.specs,
+        typedSpecs: s.data.typedSpecs,
+        variants: s.data.variants,
+        trims: s.data.trims,
+        trustWeight: configs[s.source]?.trustWeight,
+      })),
+      rules,
+      rates,
+      variantsByCar.get(carKey(entry))
+    )
+  );
+
+  const headerRows: Record<string, number> = {};
+  for (const sheet of sheets) headerRows[sheet.sheetName] = sheet.headerRow;
+
+  const excelReport = saveExcelReport(
+    comparisons,
+    filePath,
+    outputDir,
+    headerRows
+  );
+  const markdownReport = saveMarkdownReport(
+    comparisons,
+    filePath,
+    sitesChecked,
+    outputDir
+  );
+
+  const fields = { match: 0, within_tolerance: 0, mismatch: 0, missing: 0 };
+  const variants = { match: 0, partial: 0, missing: 0 };
+  const coverageGaps = { fields: 0, variants: 0 };
+  const countedVariants = new Set<string>();
+  let entriesWithIssues = 0;
+  for (const comparison of comparisons) {
+    coverageGaps.fields += comparison.coverage?.fields.length ?? 0;
+    for (const gap of comparison.coverage?.variants ?? []) {
+      const key = `${comparison.car}|${gap.variant}`.toLowerCase();
+      if (!countedVariants.has(key)) {
+        countedVariants.add(key);
+        coverageGaps.variants++;
+      }
+    }
+    let hasIssue = comparison.variantCheck.status !== "match";
+    for (const fc of Object.values(comparison.fields)) {
+      fields[fc.status]++;
+      if (fc.status !== "match" && fc.status !== "within_tolerance") {
+        hasIssue = true;
+      }
+    }
+    variants[comparison.variantCheck.status]++;
+    if (hasIssue) entriesWithIssues++;
+  }
+
+  return {
+    totalEntries: entries.length,
+    sheets,
+    skippedSheets,
+    validationWarnings: warnings.length,
+    sitesChecked,
+    skippedSites,
+    fields,
+    variants,
+    coverageGaps,
+    entriesWithIssues,
+    scrapeFailures,
+    noUrl,
+    rowUrlsUsed: tasks.filter((t) => t.fromRow).length,
+    fromCache: new Set(
+      tasks
+        .filter((_, i) => scraped[i].fromCache)
+        .map((t) => `${t.site} ${t.url}`)
+    ).size,
+    resolvedBySearch,
+    excelReport,
+    markdownReport,
+  };
+}
@@ -53,7 +53,7 @@ async function runFullFlow() {
   console.log("STEP 2: PARSE EXCEL");
   console.log("========================================\n");
 
-  const entries = parseExcelFile(excelPath);
+  const { entries } = parseExcelFile(excelPath);
   const entry = entries[0];
   console.log(`Brand: ${entry.brand}, Model: ${entry.model}, Variant: ${entry.variant}`);
   console.log(`Price: ${entry.price}`);